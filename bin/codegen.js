@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+
+// ANSI color codes for better terminal output
+const colors = {
+  reset: '\x1b[0m',
+  bright: '\x1b[1m',
+  dim: '\x1b[2m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  blue: '\x1b[34m',
+  cyan: '\x1b[36m',
+};
+
+const log = {
+  info: (msg) => console.log(`${colors.blue}ℹ${colors.reset} ${msg}`),
+  success: (msg) => console.log(`${colors.green}✓${colors.reset} ${msg}`),
+  error: (msg) => console.log(`${colors.red}✗${colors.reset} ${msg}`),
+  title: (msg) => console.log(`\n${colors.bright}${colors.cyan}${msg}${colors.reset}\n`),
+};
+
+const usage = `Usage: unified-tracking-codegen <tracking-plan.json|yaml> [options]
+
+Options:
+  -o, --output <file>       Output TypeScript file (default: tracking-plan.generated.ts)
+  --import-from <module>    Module that exports UnifiedTracking (default: unified-tracking)
+  -h, --help                Show this help`;
+
+class TrackingPlanCodegen {
+  constructor(argv) {
+    this.options = {
+      input: null,
+      output: 'tracking-plan.generated.ts',
+      importFrom: 'unified-tracking',
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i];
+
+      if (arg === '-h' || arg === '--help') {
+        this.options.help = true;
+      } else if (arg === '-o' || arg === '--output') {
+        this.options.output = argv[++i];
+      } else if (arg === '--import-from') {
+        this.options.importFrom = argv[++i];
+      } else if (!this.options.input) {
+        this.options.input = arg;
+      }
+    }
+  }
+
+  async loadPlan(file) {
+    const content = fs.readFileSync(file, 'utf8');
+    const extension = path.extname(file).toLowerCase();
+
+    if (extension !== '.yaml' && extension !== '.yml') {
+      return JSON.parse(content);
+    }
+
+    // YAML support relies on a parser installed in the host project to keep this package dependency-free
+    for (const moduleName of ['yaml', 'js-yaml']) {
+      try {
+        const parser = await import(moduleName);
+        const parse = parser.parse || parser.load || parser.default?.parse || parser.default?.load;
+        return parse(content);
+      } catch {
+        // Try the next parser
+      }
+    }
+
+    throw new Error('Reading YAML tracking plans requires the "yaml" or "js-yaml" package to be installed');
+  }
+
+  validatePlan(plan) {
+    if (!plan || typeof plan !== 'object' || !plan.events || typeof plan.events !== 'object') {
+      throw new Error('Tracking plan must be an object with an "events" map');
+    }
+  }
+
+  toPascalCase(name) {
+    const pascal = name
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+      .join('');
+
+    return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+  }
+
+  propertyKey(name) {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+  }
+
+  docComment(description, indent = '') {
+    if (!description) return '';
+    const lines = String(description).split('\n');
+    return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+  }
+
+  schemaToType(schema = {}, indent = '') {
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (types.length === 0) {
+      return 'unknown';
+    }
+
+    return types
+      .map((type) => {
+        switch (type) {
+          case 'string':
+            return 'string';
+          case 'number':
+          case 'integer':
+            return 'number';
+          case 'boolean':
+            return 'boolean';
+          case 'null':
+            return 'null';
+          case 'array':
+            return `Array<${this.schemaToType(schema.items, indent)}>`;
+          case 'object':
+            return schema.properties ? this.objectType(schema, indent) : 'Record<string, unknown>';
+          default:
+            return 'unknown';
+        }
+      })
+      .join(' | ');
+  }
+
+  objectType(schema, indent = '') {
+    const required = new Set(schema.required || []);
+    const inner = `${indent}  `;
+    const members = Object.entries(schema.properties || {}).map(([name, propertySchema]) => {
+      const optional = required.has(name) ? '' : '?';
+      return `${this.docComment(propertySchema.description, inner)}${inner}${this.propertyKey(name)}${optional}: ${this.schemaToType(propertySchema, inner)};`;
+    });
+
+    // Required properties that have no schema of their own
+    for (const name of required) {
+      if (!schema.properties?.[name]) {
+        members.push(`${inner}${this.propertyKey(name)}: unknown;`);
+      }
+    }
+
+    if (schema.additionalProperties !== false) {
+      members.push(`${inner}[key: string]: unknown;`);
+    }
+
+    return members.length > 0 ? `{\n${members.join('\n')}\n${indent}}` : '{}';
+  }
+
+  generateWrapper(kind, name, schema, usedNames) {
+    const baseName = this.toPascalCase(name) || 'Unnamed';
+    let functionName = kind === 'track' ? `track${baseName}` : `log${baseName}Screen`;
+
+    // Names that collapse to the same identifier get a numeric suffix
+    let suffix = 2;
+    while (usedNames.has(functionName)) {
+      functionName = `${kind === 'track' ? `track${baseName}` : `log${baseName}Screen`}${suffix++}`;
+    }
+    usedNames.add(functionName);
+
+    const typeName = `${functionName.charAt(0).toUpperCase()}${functionName.slice(1)}Properties`;
+    const hasRequired = (schema.required || []).length > 0;
+    const param = `properties${hasRequired ? '' : '?'}: ${typeName}`;
+    const call =
+      kind === 'track'
+        ? `UnifiedTracking.track(${JSON.stringify(name)}, properties)`
+        : `UnifiedTracking.logScreenView(${JSON.stringify(name)}, properties)`;
+
+    return [
+      `export type ${typeName} = ${this.objectType(schema)};`,
+      '',
+      `${this.docComment(schema.description || `${kind === 'track' ? 'Track' : 'Log screen view'} "${name}"`)}export function ${functionName}(${param}): Promise<void> {`,
+      `  return ${call};`,
+      '}',
+    ].join('\n');
+  }
+
+  generate(plan, sourceName) {
+    const usedNames = new Set();
+    const eventNames = Object.keys(plan.events);
+    const screenNames = Object.keys(plan.screens || {});
+
+    const sections = [
+      `// Generated by unified-tracking-codegen from ${sourceName}. Do not edit by hand.`,
+      '',
+      `import { UnifiedTracking } from '${this.options.importFrom}';`,
+      `import type { TrackingPlan } from '${this.options.importFrom}';`,
+      '',
+      `export type EventName = ${eventNames.length > 0 ? eventNames.map((n) => JSON.stringify(n)).join(' | ') : 'never'};`,
+    ];
+
+    if (screenNames.length > 0) {
+      sections.push('', `export type ScreenName = ${screenNames.map((n) => JSON.stringify(n)).join(' | ')};`);
+    }
+
+    sections.push(
+      '',
+      '/**',
+      ' * Register with UnifiedTracking.setTrackingPlan() to validate calls at runtime',
+      ' */',
+      `export const trackingPlan: TrackingPlan = ${JSON.stringify(plan, null, 2)};`,
+    );
+
+    for (const name of eventNames) {
+      sections.push('', this.generateWrapper('track', name, plan.events[name] || {}, usedNames));
+    }
+
+    for (const name of screenNames) {
+      sections.push('', this.generateWrapper('screen', name, plan.screens[name] || {}, usedNames));
+    }
+
+    return `${sections.join('\n')}\n`;
+  }
+
+  async run() {
+    if (this.options.help || !this.options.input) {
+      console.log(usage);
+      process.exitCode = this.options.help ? 0 : 1;
+      return;
+    }
+
+    try {
+      log.title('🛠  Unified Tracking Codegen');
+
+      const inputPath = path.resolve(process.cwd(), this.options.input);
+      const outputPath = path.resolve(process.cwd(), this.options.output);
+
+      log.info(`Reading tracking plan: ${inputPath}`);
+      const plan = await this.loadPlan(inputPath);
+      this.validatePlan(plan);
+
+      const content = this.generate(plan, path.basename(inputPath));
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, content);
+
+      const screenCount = Object.keys(plan.screens || {}).length;
+      log.success(
+        `Generated ${Object.keys(plan.events).length} event and ${screenCount} screen functions: ${outputPath}`,
+      );
+    } catch (error) {
+      log.error(`Code generation failed: ${error.message}`);
+      process.exitCode = 1;
+    }
+  }
+}
+
+// Run the generator
+const codegen = new TrackingPlanCodegen(process.argv.slice(2));
+codegen.run().catch(console.error);
@@ -23,6 +23,9 @@ import type {
   ErrorContext,
   RevenueData,
   ConsentSettings,
+  ListenerEventName,
+  ValidationErrorEvent,
+  ConsentRenewalEvent,
 } from '../definitions';
 
 export class UnifiedTrackingCapacitorPlugin extends WebPlugin implements UnifiedTrackingPlugin {
@@ -41,6 +44,14 @@ export class UnifiedTrackingCapacitorPlugin extends WebPlugin implements Unified
     return this.core.track(event, properties);
   }
 
+  async time(eventName: string) {
+    return this.core.time(eventName);
+  }
+
+  async cancelTimedEvent(eventName: string) {
+    return this.core.cancelTimedEvent(eventName);
+  }
+
   async identify(userId: string, traits?: Record<string, any>) {
     return this.core.identify(userId, traits);
   }
@@ -61,6 +72,18 @@ export class UnifiedTrackingCapacitorPlugin extends WebPlugin implements Unified
     return this.core.logScreenView(screenName, properties);
   }
 
+  async register(properties: Record<string, unknown>) {
+    return this.core.register(properties);
+  }
+
+  async registerOnce(properties: Record<string, unknown>) {
+    return this.core.registerOnce(properties);
+  }
+
+  async unregister(propertyName: string) {
+    return this.core.unregister(propertyName);
+  }
+
   async setConsent(consent: ConsentSettings) {
     return this.core.setConsent(consent);
   }
@@ -69,6 +92,14 @@ export class UnifiedTrackingCapacitorPlugin extends WebPlugin implements Unified
     return this.core.reset();
   }
 
+  async forgetUser() {
+    return this.core.forgetUser();
+  }
+
+  async exportLocalData() {
+    return this.core.exportLocalData();
+  }
+
   async getActiveProviders() {
     return this.core.getActiveProviders();
   }
@@ -78,14 +109,18 @@ export class UnifiedTrackingCapacitorPlugin extends WebPlugin implements Unified
   }
 
   async addListener(
-    eventName: 'trackingEvent' | 'error' | 'providerStatusChange',
-    listenerFunc: (event: TrackingEvent | ProviderEvent) => void,
+    eventName: ListenerEventName,
+    listenerFunc: (event: TrackingEvent | ProviderEvent | ValidationErrorEvent | ConsentRenewalEvent) => void,
   ): Promise<PluginListenerHandle> {
     // Create a wrapper function that converts core events to our event types
     const wrappedListener = (eventData: any) => {
-      let event: TrackingEvent | ProviderEvent;
+      let event: TrackingEvent | ProviderEvent | ValidationErrorEvent | ConsentRenewalEvent;
 
-      if (eventName === 'trackingEvent') {
+      if (eventName === 'validationError') {
+        event = eventData as ValidationErrorEvent;
+      } else if (eventName === 'consentRenewalRequired') {
+        event = eventData as ConsentRenewalEvent;
+      } else if (eventName === 'trackingEvent') {
         event = {
           type: 'trackingEvent',
           event: eventData.event,
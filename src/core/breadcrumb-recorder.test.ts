@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BreadcrumbRecorder, getProviderHosts } from './breadcrumb-recorder';
+import { Logger } from '../utils/logger';
+
+describe('BreadcrumbRecorder', () => {
+  let recorder: BreadcrumbRecorder;
+  const originalFetch = window.fetch;
+
+  beforeEach(() => {
+    recorder = new BreadcrumbRecorder();
+  });
+
+  afterEach(() => {
+    recorder.stop();
+    window.fetch = originalFetch;
+    (window.location as any).href = 'http://localhost:3000';
+    document.body.innerHTML = '';
+  });
+
+  const messages = () => recorder.getBreadcrumbs().map((breadcrumb) => breadcrumb.message);
+
+  it('should keep the newest breadcrumbs in order', () => {
+    recorder.start({ maxBreadcrumbs: 3, categories: { console: false } });
+
+    for (let i = 1; i <= 5; i++) {
+      recorder.add({ message: `step ${i}` });
+    }
+
+    expect(messages()).toEqual(['step 3', 'step 4', 'step 5']);
+  });
+
+  it('should record console output but not the log lines of the library', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    recorder.start();
+
+    console.log('loaded', { items: 2 });
+    Logger.getInstance().warn('Tracking event');
+    new Logger('AmplitudeAnalytics').warn('Failed to track event');
+
+    expect(recorder.getBreadcrumbs()).toEqual([
+      { message: 'loaded {"items":2}', category: 'console', data: { level: 'log' }, timestamp: expect.any(Number) },
+    ]);
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+
+    recorder.stop();
+    log.mockRestore();
+    warn.mockRestore();
+  });
+
+  it('should record fetch requests without query strings', async () => {
+    const fetch = vi.fn().mockResolvedValue({ status: 404 });
+    window.fetch = fetch;
+    recorder.start({ categories: { console: false } });
+
+    await window.fetch('https://api.example.com/users?email=jane@example.com', { method: 'post' });
+
+    expect(fetch).toHaveBeenCalled();
+    expect(recorder.getBreadcrumbs()[0]).toEqual(
+      expect.objectContaining({
+        message: 'POST https://api.example.com/users',
+        category: 'network',
+        data: expect.objectContaining({ type: 'fetch', status_code: 404 }),
+      }),
+    );
+  });
+
+  it('should not record requests to provider endpoints', async () => {
+    const fetch = vi.fn().mockResolvedValue({ status: 200 });
+    window.fetch = fetch;
+    recorder.start({ categories: { console: false } }, ['segment.io', 'matomo.example.com']);
+
+    await window.fetch('https://api.segment.io/v1/batch', { method: 'post' });
+    await window.fetch('https://matomo.example.com/matomo.php?idsite=1');
+    await window.fetch('https://api.example.com/users');
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(messages()).toEqual(['GET https://api.example.com/users']);
+  });
+
+  it('should collect the hosts of the configured providers', () => {
+    const hosts = getProviderHosts({
+      analytics: { providers: ['segment', 'matomo'], matomo: { siteId: '1', url: 'https://stats.example.com' } },
+      errorTracking: { sentry: { dsn: 'https://key@o1.ingest.sentry.io/2' } },
+    });
+
+    expect(hosts).toEqual(
+      expect.arrayContaining(['segment.io', 'stats.example.com', 'sentry.io', 'o1.ingest.sentry.io']),
+    );
+    expect(hosts).not.toContain('mixpanel.com');
+  });
+
+  it('should record navigation and clicks', () => {
+    recorder.start({ categories: { console: false }, redactUrl: (url) => url.replace(/\/\d+/g, '/:id') });
+    document.body.innerHTML =
+      '<form id="checkout"><div class="row actions"><button type="button" class="btn primary">Pay</button></div></form>';
+
+    (window.location as any).href = 'http://localhost:3000/orders/42';
+    history.pushState(null, '', '/orders/42');
+    document.querySelector('button')!.click();
+
+    expect(recorder.getBreadcrumbs()).toEqual([
+      expect.objectContaining({
+        category: 'navigation',
+        data: { from: 'http://localhost:3000', to: 'http://localhost:3000/orders/:id' },
+      }),
+      expect.objectContaining({
+        category: 'click',
+        data: { selector: 'form#checkout > div.row.actions > button.btn.primary' },
+      }),
+    ]);
+  });
+
+  it('should restore instrumented globals on stop', () => {
+    const warn = console.warn;
+    const pushState = history.pushState;
+    recorder.start();
+
+    recorder.stop();
+
+    expect(console.warn).toBe(warn);
+    expect(history.pushState).toBe(pushState);
+  });
+});
@@ -0,0 +1,352 @@
+import type { Breadcrumb, BreadcrumbCategory, BreadcrumbSettings, UnifiedTrackingConfig } from '../definitions';
+import { Logger } from '../utils/logger';
+
+type ConsoleLevel = 'debug' | 'info' | 'log' | 'warn' | 'error';
+type HistoryMethod = 'pushState' | 'replaceState';
+
+const DEFAULT_MAX_BREADCRUMBS = 100;
+const CONSOLE_LEVELS: ConsoleLevel[] = ['debug', 'info', 'log', 'warn', 'error'];
+const HISTORY_METHODS: HistoryMethod[] = ['pushState', 'replaceState'];
+// Where each provider's SDK sends its data by default; requests there are not app activity
+const PROVIDER_HOSTS: Record<string, string[]> = {
+  google: ['google-analytics.com', 'analytics.google.com', 'googletagmanager.com'],
+  firebase: ['firebase.googleapis.com', 'firebaseinstallations.googleapis.com', 'firebaselogging-pa.googleapis.com'],
+  amplitude: ['amplitude.com'],
+  mixpanel: ['mixpanel.com'],
+  segment: ['segment.io', 'segment.com'],
+  posthog: ['posthog.com'],
+  heap: ['heapanalytics.com'],
+  sentry: ['sentry.io', 'sentry-cdn.com'],
+  crashlytics: ['firebase.googleapis.com', 'firebaselogging-pa.googleapis.com', 'crashlyticsreports-pa.googleapis.com'],
+  datadog: ['datadoghq.com', 'datadoghq.eu', 'datadoghq-browser-agent.com'],
+  bugsnag: ['bugsnag.com'],
+  rollbar: ['rollbar.com'],
+  logrocket: ['lr-ingest.io', 'lr-in.com', 'logrocket.io'],
+  raygun: ['raygun.io', 'raygun.com'],
+  appcenter: ['appcenter.ms'],
+};
+
+interface XhrInfo {
+  method: string;
+  url: string;
+  startedAt: number;
+}
+
+/**
+ * Records console output, network requests, navigation and clicks into one ring buffer
+ * that is attached to every logged error
+ */
+export class BreadcrumbRecorder {
+  private buffer: Breadcrumb[] = [];
+  // Index of the oldest breadcrumb once the buffer is full
+  private head = 0;
+  private maxBreadcrumbs = DEFAULT_MAX_BREADCRUMBS;
+  private redactUrl: (url: string) => string = stripQuery;
+  private ignoredHosts: string[] = [];
+  private restorers: Array<() => void> = [];
+  private xhrInfo: WeakMap<XMLHttpRequest, XhrInfo> = new WeakMap();
+  private lastUrl?: string;
+  // Wrappers another library wrapped again cannot be removed, so they check this instead
+  private recording = false;
+
+  /**
+   * Start recording. Requests to the ignored hosts or their subdomains, usually the providers'
+   * endpoints, are left out.
+   */
+  start(settings: BreadcrumbSettings = {}, ignoredHosts: string[] = []): void {
+    this.stop();
+
+    this.maxBreadcrumbs = Math.max(1, settings.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS);
+    this.redactUrl = settings.redactUrl || stripQuery;
+    this.ignoredHosts = ignoredHosts.map((host) => host.toLowerCase());
+    this.clear();
+
+    this.recording = true;
+
+    const enabled = (category: BreadcrumbCategory) => settings.categories?.[category] !== false;
+
+    if (enabled('console') && typeof console !== 'undefined') this.instrumentConsole();
+    if (typeof window === 'undefined') return;
+    if (enabled('network')) this.instrumentNetwork();
+    if (enabled('navigation')) this.instrumentNavigation();
+    if (enabled('click') && typeof document !== 'undefined') this.instrumentClicks();
+  }
+
+  stop(): void {
+    // Restore in reverse so each patch puts back what it replaced
+    this.restorers.reverse().forEach((restore) => restore());
+    this.restorers = [];
+    this.recording = false;
+  }
+
+  add(breadcrumb: Breadcrumb): void {
+    const entry = { ...breadcrumb, timestamp: breadcrumb.timestamp ?? Date.now() };
+
+    if (this.buffer.length < this.maxBreadcrumbs) {
+      this.buffer.push(entry);
+    } else {
+      this.buffer[this.head] = entry;
+      this.head = (this.head + 1) % this.maxBreadcrumbs;
+    }
+  }
+
+  /**
+   * Recorded breadcrumbs, oldest first
+   */
+  getBreadcrumbs(): Breadcrumb[] {
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.head = 0;
+  }
+
+  private instrumentConsole(): void {
+    for (const level of CONSOLE_LEVELS) {
+      const original = console[level];
+      if (typeof original !== 'function') continue;
+
+      const record = (args: unknown[]) => this.recordConsole(level, args);
+      const wrapper = function (this: Console, ...args: unknown[]) {
+        record(args);
+        return original.apply(this, args);
+      };
+
+      console[level] = wrapper;
+      this.restorers.push(() => {
+        if (console[level] === wrapper) console[level] = original;
+      });
+    }
+  }
+
+  private recordConsole(level: ConsoleLevel, args: unknown[]): void {
+    // The library's own log lines are not app activity
+    if (!this.recording || Logger.isWriting()) return;
+
+    this.add({
+      message: args.map(formatArg).join(' '),
+      category: 'console',
+      data: { level },
+    });
+  }
+
+  private instrumentNetwork(): void {
+    const originalFetch = window.fetch;
+    if (typeof originalFetch === 'function') {
+      const record = (data: Record<string, unknown>) => this.recordRequest(data);
+      const redact = (url: string) => this.redactUrl(url);
+      const isIgnored = (url: string) => this.isIgnoredUrl(url);
+      const wrapper = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const rawUrl = input instanceof Request ? input.url : String(input);
+        if (isIgnored(rawUrl)) {
+          return originalFetch.call(window, input, init);
+        }
+
+        const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+        const url = redact(rawUrl);
+        const startedAt = Date.now();
+
+        try {
+          const response = await originalFetch.call(window, input, init);
+          record({ type: 'fetch', method, url, status_code: response.status, duration_ms: Date.now() - startedAt });
+          return response;
+        } catch (error) {
+          record({ type: 'fetch', method, url, error: (error as Error)?.message, duration_ms: Date.now() - startedAt });
+          throw error;
+        }
+      };
+
+      window.fetch = wrapper;
+      this.restorers.push(() => {
+        if (window.fetch === wrapper) window.fetch = originalFetch;
+      });
+    }
+
+    if (typeof XMLHttpRequest !== 'undefined') {
+      const proto = XMLHttpRequest.prototype;
+      const originalOpen = proto.open;
+      const originalSend = proto.send;
+      const xhrInfo = this.xhrInfo;
+      const record = (data: Record<string, unknown>) => this.recordRequest(data);
+      const redact = (url: string) => this.redactUrl(url);
+      const isIgnored = (url: string) => this.isIgnoredUrl(url);
+
+      const open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+        if (isIgnored(String(url))) {
+          xhrInfo.delete(this);
+        } else {
+          xhrInfo.set(this, { method: method.toUpperCase(), url: redact(String(url)), startedAt: 0 });
+        }
+        return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+      } as XMLHttpRequest['open'];
+
+      const send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        const info = xhrInfo.get(this);
+        if (info) {
+          info.startedAt = Date.now();
+          this.addEventListener('loadend', () => {
+            record({
+              type: 'xhr',
+              method: info.method,
+              url: info.url,
+              status_code: this.status,
+              duration_ms: Date.now() - info.startedAt,
+            });
+          });
+        }
+        return originalSend.call(this, body);
+      };
+
+      proto.open = open;
+      proto.send = send;
+      this.restorers.push(() => {
+        if (proto.open === open) proto.open = originalOpen;
+        if (proto.send === send) proto.send = originalSend;
+      });
+    }
+  }
+
+  private recordRequest(data: Record<string, unknown>): void {
+    if (!this.recording) return;
+
+    this.add({ message: `${data.method} ${data.url}`, category: 'network', data });
+  }
+
+  private isIgnoredUrl(url: string): boolean {
+    if (this.ignoredHosts.length === 0) return false;
+
+    let host: string;
+    try {
+      host = new URL(url, window.location.href).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    return this.ignoredHosts.some((ignored) => host === ignored || host.endsWith(`.${ignored}`));
+  }
+
+  private instrumentNavigation(): void {
+    this.lastUrl = this.redactUrl(window.location.href);
+    const record = () => this.recordNavigation();
+
+    for (const method of HISTORY_METHODS) {
+      const original = history[method];
+      const wrapper = function (this: History, ...args: Parameters<History['pushState']>) {
+        const result = original.apply(this, args);
+        record();
+        return result;
+      };
+
+      history[method] = wrapper;
+      this.restorers.push(() => {
+        if (history[method] === wrapper) history[method] = original;
+      });
+    }
+
+    window.addEventListener('popstate', record);
+    window.addEventListener('hashchange', record);
+    this.restorers.push(() => {
+      window.removeEventListener('popstate', record);
+      window.removeEventListener('hashchange', record);
+    });
+  }
+
+  private recordNavigation(): void {
+    if (!this.recording) return;
+
+    const to = this.redactUrl(window.location.href);
+    if (to === this.lastUrl) return;
+
+    this.add({ message: `Navigated to ${to}`, category: 'navigation', data: { from: this.lastUrl, to } });
+    this.lastUrl = to;
+  }
+
+  private instrumentClicks(): void {
+    const handleClick = (event: MouseEvent) => {
+      if (!(event.target instanceof Element)) return;
+
+      const selector = getSelector(event.target);
+      this.add({ message: `Clicked ${selector}`, category: 'click', data: { selector } });
+    };
+
+    // Capture phase so handlers that stop propagation do not hide the click
+    document.addEventListener('click', handleClick, true);
+    this.restorers.push(() => document.removeEventListener('click', handleClick, true));
+  }
+}
+
+/**
+ * Hosts the configured providers send to: their SDKs' default endpoints plus any URL in their
+ * configuration, such as a self-hosted server or a DSN
+ */
+export function getProviderHosts(config: UnifiedTrackingConfig): string[] {
+  const hosts = new Set<string>();
+
+  for (const section of [config.analytics, config.errorTracking]) {
+    if (!section) continue;
+
+    const { providers = [], ...configs } = section as { providers?: string[] } & Record<string, unknown>;
+    for (const name of new Set([...providers, ...Object.keys(configs)])) {
+      PROVIDER_HOSTS[name]?.forEach((host) => hosts.add(host));
+
+      const values = Object.values((configs[name] as Record<string, unknown> | undefined) ?? {});
+      for (const value of values) {
+        if (typeof value === 'string' && /^https?:\/\//i.test(value)) {
+          try {
+            hosts.add(new URL(value).hostname);
+          } catch {
+            // Not a URL after all
+          }
+        }
+      }
+    }
+  }
+
+  return [...hosts];
+}
+
+function stripQuery(url: string): string {
+  return url.split(/[?#]/)[0];
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch {
+    return String(arg);
+  }
+}
+
+/**
+ * CSS-like path of the element and up to four ancestors, e.g. "form#checkout > button.primary"
+ */
+function getSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && parts.length < 5 && current !== document.body && current !== document.documentElement) {
+    let part = current.tagName.toLowerCase();
+
+    if (current.id) {
+      part += `#${current.id}`;
+    } else {
+      const classes = Array.from(current.classList).slice(0, 2);
+      if (classes.length) part += `.${classes.join('.')}`;
+
+      const testId = current.getAttribute('data-testid');
+      if (testId) part += `[data-testid="${testId}"]`;
+    }
+
+    parts.unshift(part);
+
+    // An id is unique enough to anchor the path
+    if (current.id) break;
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConsentBridge } from './consent-bridge';
+
+describe('ConsentBridge', () => {
+  let onChange: ReturnType<typeof vi.fn>;
+  let bridge: ConsentBridge;
+
+  const tcData = (consents: Record<number, boolean>, eventStatus = 'useractioncomplete') => ({
+    gdprApplies: true,
+    eventStatus,
+    listenerId: 7,
+    purpose: { consents },
+  });
+
+  beforeEach(() => {
+    onChange = vi.fn();
+    bridge = new ConsentBridge(onChange);
+  });
+
+  afterEach(() => {
+    bridge.stop();
+    delete (window as any).__tcfapi;
+    delete (window as any).__uspapi;
+    delete (window as any).__gpp;
+  });
+
+  it('should map TCF purposes to consent categories', () => {
+    expect(bridge.fromTcData(tcData({ 1: true, 8: true, 2: true }))).toEqual({
+      analytics: true,
+      marketing: false,
+      personalization: false,
+    });
+    expect(bridge.fromTcData(tcData({ 1: true }, 'cmpuishown'))).toBeNull();
+    expect(bridge.fromTcData({ gdprApplies: false })).toBeNull();
+  });
+
+  it('should read consent from a local TCF stub and remove its listener on stop', () => {
+    const tcfApi = vi.fn((command: string, _version: number, callback: (data: any, success: boolean) => void) => {
+      if (command === 'addEventListener') {
+        callback(tcData({ 1: true, 2: true, 3: true, 4: true, 7: true, 8: true }), true);
+      }
+    });
+
+    bridge.start({ tcfApi });
+
+    expect(onChange).toHaveBeenCalledWith({ analytics: true, marketing: true, personalization: true });
+
+    bridge.stop();
+    expect(tcfApi).toHaveBeenCalledWith('removeEventListener', 2, expect.any(Function), 7);
+  });
+
+  it('should let a US Privacy opt-out override a TCF grant', () => {
+    (window as any).__tcfapi = (_command: string, _version: number, callback: (data: any, success: boolean) => void) =>
+      callback(tcData({ 1: true, 2: true, 7: true, 8: true }), true);
+    (window as any).__uspapi = (_command: string, _version: number, callback: (data: any, success: boolean) => void) =>
+      callback({ uspString: '1YYN' }, true);
+
+    bridge.start({});
+
+    expect(onChange).toHaveBeenLastCalledWith({ analytics: true, marketing: false, personalization: false });
+  });
+
+  it('should read opt-outs from parsed GPP sections', () => {
+    expect(bridge.fromGppData({ parsedSections: { usnat: { SaleOptOut: 2, TargetedAdvertisingOptOut: 1 } } })).toEqual({
+      marketing: false,
+    });
+    expect(bridge.fromGppData({ parsedSections: { usca: { SaleOptOut: 2, SharingOptOut: 2 } } })).toEqual({
+      marketing: true,
+    });
+    expect(bridge.fromGppData({ parsedSections: { uspv1: '1NYN' } })).toEqual({ marketing: false });
+    expect(bridge.fromGppData({ parsedSections: {} })).toBeNull();
+  });
+
+  it('should only report changes', () => {
+    let listener: (data: any, success: boolean) => void = () => undefined;
+    bridge.start({
+      tcfApi: (_command, _version, callback) => {
+        listener = callback;
+      },
+    });
+
+    listener(tcData({ 1: true, 8: true }), true);
+    listener(tcData({ 1: true, 8: true }), true);
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
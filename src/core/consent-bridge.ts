@@ -0,0 +1,185 @@
+import type { ConsentBridgeSettings, ConsentSettings, TcfApi } from '../definitions';
+import { Logger } from '../utils/logger';
+
+type BridgedCategory = 'analytics' | 'marketing' | 'personalization';
+type Signal = 'tcf' | 'gpp' | 'usPrivacy';
+
+type UspApi = (command: string, version: number, callback: (data: any, success: boolean) => void) => void;
+type GppApi = (command: string, callback: (data: any, success: boolean) => void, parameter?: unknown) => void;
+
+const DEFAULT_TCF_PURPOSES: Record<BridgedCategory, number[]> = {
+  // 1: store/access information on a device, 8: measure content performance
+  analytics: [1, 8],
+  // 2: basic ads, 7: measure ad performance
+  marketing: [1, 2, 7],
+  // 3: create a personalised ads profile, 4: use it to select ads
+  personalization: [1, 3, 4],
+};
+
+// GPP opt-out fields: 1 means the user opted out, 2 means they did not
+const GPP_OPT_OUT_FIELDS = ['SaleOptOut', 'SharingOptOut', 'TargetedAdvertisingOptOut'];
+
+/**
+ * Translates IAB CMP signals into ConsentSettings. When signals disagree a denial wins.
+ */
+export class ConsentBridge {
+  private logger: Logger;
+  private signals: Partial<Record<Signal, ConsentSettings>> = {};
+  private lastEmitted?: string;
+  private tcfApi?: TcfApi;
+  private tcfListenerId?: number;
+  private gppApi?: GppApi;
+  private gppListenerId?: number;
+  private tcfPurposes: Record<BridgedCategory, number[]> = DEFAULT_TCF_PURPOSES;
+
+  constructor(private onChange: (consent: ConsentSettings) => void) {
+    this.logger = Logger.getInstance('ConsentBridge');
+  }
+
+  start(settings: ConsentBridgeSettings): void {
+    this.stop();
+    this.tcfPurposes = { ...DEFAULT_TCF_PURPOSES, ...settings.tcfPurposes };
+
+    const win = typeof window !== 'undefined' ? (window as any) : {};
+
+    const tcfApi = settings.tcfApi || win.__tcfapi;
+    if (settings.tcf !== false && typeof tcfApi === 'function') {
+      this.tcfApi = tcfApi;
+      tcfApi('addEventListener', 2, this.handleTcfData);
+    }
+
+    if (settings.gpp !== false && typeof win.__gpp === 'function') {
+      this.gppApi = win.__gpp;
+      win.__gpp('addEventListener', this.handleGppEvent);
+    }
+
+    if (settings.usPrivacy !== false && typeof win.__uspapi === 'function') {
+      (win.__uspapi as UspApi)('getUSPData', 1, (data, success) => {
+        if (success && data?.uspString) {
+          this.update('usPrivacy', this.fromUspString(data.uspString));
+        }
+      });
+    }
+  }
+
+  stop(): void {
+    if (this.tcfApi && this.tcfListenerId !== undefined) {
+      this.tcfApi('removeEventListener', 2, () => undefined, this.tcfListenerId);
+    }
+    if (this.gppApi && this.gppListenerId !== undefined) {
+      this.gppApi('removeEventListener', () => undefined, this.gppListenerId);
+    }
+
+    this.tcfApi = undefined;
+    this.tcfListenerId = undefined;
+    this.gppApi = undefined;
+    this.gppListenerId = undefined;
+    this.signals = {};
+    this.lastEmitted = undefined;
+  }
+
+  /**
+   * Consent from a TCF v2 TCData object; null when GDPR does not apply or the user has not decided yet
+   */
+  fromTcData(tcData: any): ConsentSettings | null {
+    if (!tcData || tcData.gdprApplies === false) {
+      return null;
+    }
+
+    if (tcData.eventStatus !== 'tcloaded' && tcData.eventStatus !== 'useractioncomplete') {
+      return null;
+    }
+
+    const consents = tcData.purpose?.consents || {};
+    const granted = (purposes: number[]) => purposes.every((purpose) => consents[purpose] === true);
+
+    return {
+      analytics: granted(this.tcfPurposes.analytics),
+      marketing: granted(this.tcfPurposes.marketing),
+      personalization: granted(this.tcfPurposes.personalization),
+    };
+  }
+
+  /**
+   * Consent from a US Privacy string such as "1YYN"; the third character is the sale opt-out
+   */
+  fromUspString(uspString: string): ConsentSettings | null {
+    const optOut = uspString.charAt(2).toUpperCase();
+
+    if (optOut === 'Y') return { marketing: false };
+    if (optOut === 'N') return { marketing: true };
+    return null;
+  }
+
+  /**
+   * Consent from GPP ping data, using the opt-outs of the parsed US sections
+   */
+  fromGppData(pingData: any): ConsentSettings | null {
+    const sections: Record<string, any> = pingData?.parsedSections || {};
+    let optedOut: boolean | undefined;
+
+    for (const [name, section] of Object.entries(sections)) {
+      if (name === 'uspv1') {
+        const usp = typeof section === 'string' ? section : section?.uspString;
+        const consent = usp ? this.fromUspString(usp) : null;
+        if (consent) optedOut = optedOut || consent.marketing === false;
+        continue;
+      }
+
+      for (const entry of Array.isArray(section) ? section : [section]) {
+        for (const field of GPP_OPT_OUT_FIELDS) {
+          if (entry?.[field] === 1) {
+            optedOut = true;
+          } else if (entry?.[field] === 2 && optedOut === undefined) {
+            optedOut = false;
+          }
+        }
+      }
+    }
+
+    return optedOut === undefined ? null : { marketing: !optedOut };
+  }
+
+  private handleTcfData = (tcData: any, success: boolean): void => {
+    if (!success) return;
+
+    if (tcData?.listenerId !== undefined) {
+      this.tcfListenerId = tcData.listenerId;
+    }
+
+    this.update('tcf', this.fromTcData(tcData));
+  };
+
+  private handleGppEvent = (event: any, success: boolean): void => {
+    if (!success || !event) return;
+
+    if (event.listenerId !== undefined) {
+      this.gppListenerId = event.listenerId;
+    }
+
+    if (event.pingData?.signalStatus === 'ready') {
+      this.update('gpp', this.fromGppData(event.pingData));
+    }
+  };
+
+  private update(signal: Signal, consent: ConsentSettings | null): void {
+    if (!consent) return;
+
+    this.signals[signal] = consent;
+
+    const merged: ConsentSettings = {};
+    for (const signalConsent of Object.values(this.signals)) {
+      for (const [category, granted] of Object.entries(signalConsent || {})) {
+        if (granted === undefined) continue;
+        merged[category] = merged[category] === false ? false : granted;
+      }
+    }
+
+    const serialized = JSON.stringify(merged);
+    if (serialized === this.lastEmitted) return;
+    this.lastEmitted = serialized;
+
+    this.logger.debug(`Consent updated from ${signal} signal`, merged);
+    this.onChange(merged);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ErrorCapture } from './error-capture';
+
+describe('ErrorCapture', () => {
+  let onError: ReturnType<typeof vi.fn>;
+  let capture: ErrorCapture;
+
+  const rejection = (reason: unknown) => {
+    const event = new Event('unhandledrejection') as PromiseRejectionEvent;
+    Object.defineProperty(event, 'reason', { value: reason });
+    return event;
+  };
+
+  beforeEach(() => {
+    onError = vi.fn();
+    capture = new ErrorCapture(onError);
+  });
+
+  afterEach(() => {
+    capture.uninstall();
+    vi.useRealTimers();
+  });
+
+  it('should report uncaught errors with parsed frames', () => {
+    capture.install();
+    const error = new Error('boom');
+    error.stack = 'Error: boom\n    at render (https://app.example.com/main.js:10:5)';
+
+    window.dispatchEvent(new ErrorEvent('error', { error, message: 'boom' }));
+
+    expect(onError).toHaveBeenCalledWith(error, {
+      severity: 'error',
+      tags: { mechanism: 'onerror', handled: 'false' },
+      extra: { filename: '', lineno: 0, colno: 0 },
+      frames: [{ file: 'https://app.example.com/main.js', line: 10, column: 5, function: 'render', inApp: true }],
+    });
+  });
+
+  it('should build an Error from events without one', () => {
+    capture.install();
+
+    window.dispatchEvent(
+      new ErrorEvent('error', {
+        message: 'Script error.',
+        filename: 'https://cdn.example.com/a.js',
+        lineno: 1,
+        colno: 9,
+      }),
+    );
+
+    const [error, context] = onError.mock.calls[0];
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('Script error.');
+    expect(context.frames).toEqual([
+      { file: 'https://cdn.example.com/a.js', line: 1, column: 9, function: undefined, inApp: true },
+    ]);
+  });
+
+  it('should normalize rejection reasons', () => {
+    capture.install();
+
+    window.dispatchEvent(rejection('timeout'));
+    window.dispatchEvent(rejection({ code: 42 }));
+
+    expect(onError.mock.calls.map(([error]) => [error.name, error.message])).toEqual([
+      ['Error', 'timeout'],
+      ['NonError', 'Non-Error value thrown: {"code":42}'],
+    ]);
+    expect(onError.mock.calls[0][1].tags.mechanism).toBe('unhandledrejection');
+  });
+
+  it('should report identical errors once per dedupe interval', () => {
+    vi.useFakeTimers();
+    capture.install({ dedupeInterval: 1000 });
+
+    for (let i = 0; i < 50; i++) {
+      window.dispatchEvent(rejection('flood'));
+    }
+    window.dispatchEvent(rejection('other'));
+    vi.advanceTimersByTime(1000);
+    window.dispatchEvent(rejection('flood'));
+
+    expect(onError).toHaveBeenCalledTimes(3);
+  });
+
+  it('should skip rejections when disabled and stop on uninstall', () => {
+    capture.install({ unhandledRejections: false });
+    window.dispatchEvent(rejection('ignored'));
+
+    capture.uninstall();
+    // Handled here so jsdom does not report it as uncaught once no capture is listening
+    const handle = (event: ErrorEvent) => event.preventDefault();
+    window.addEventListener('error', handle);
+    window.dispatchEvent(new ErrorEvent('error', { error: new Error('late'), message: 'late' }));
+    window.removeEventListener('error', handle);
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(capture.isInstalled()).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+import type { ErrorCaptureSettings, ErrorContext } from '../definitions';
+import { Logger } from '../utils/logger';
+import { parseStack } from '../utils/stack-parser';
+
+const DEFAULT_DEDUPE_INTERVAL = 5000;
+
+/**
+ * Captures uncaught errors and unhandled promise rejections from the global scope
+ */
+export class ErrorCapture {
+  private logger: Logger;
+  private installed = false;
+  private unhandledRejections = true;
+  private dedupeInterval = DEFAULT_DEDUPE_INTERVAL;
+  // Last report time per error signature
+  private lastSeen: Map<string, number> = new Map();
+
+  constructor(private onError: (error: Error, context: ErrorContext) => void) {
+    this.logger = Logger.getInstance('ErrorCapture');
+  }
+
+  install(settings: ErrorCaptureSettings = {}): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    this.uninstall();
+    this.unhandledRejections = settings.unhandledRejections !== false;
+    this.dedupeInterval = settings.dedupeInterval ?? DEFAULT_DEDUPE_INTERVAL;
+
+    window.addEventListener('error', this.handleError);
+    if (this.unhandledRejections) {
+      window.addEventListener('unhandledrejection', this.handleRejection);
+    }
+
+    this.installed = true;
+  }
+
+  uninstall(): void {
+    if (!this.installed) return;
+
+    window.removeEventListener('error', this.handleError);
+    window.removeEventListener('unhandledrejection', this.handleRejection);
+
+    this.installed = false;
+    this.lastSeen.clear();
+  }
+
+  isInstalled(): boolean {
+    return this.installed;
+  }
+
+  /**
+   * Turn anything that can be thrown or rejected with into an Error
+   */
+  normalize(value: unknown): Error {
+    if (value instanceof Error) {
+      return value;
+    }
+
+    if (typeof value === 'string') {
+      return new Error(value);
+    }
+
+    const error = new Error(`Non-Error value thrown: ${this.describe(value)}`);
+    error.name = 'NonError';
+    return error;
+  }
+
+  private handleError = (event: ErrorEvent): void => {
+    // Resource load failures reach capturing listeners only and carry no message
+    if (!event.error && !event.message) return;
+
+    const error =
+      event.error !== undefined && event.error !== null ? this.normalize(event.error) : new Error(event.message);
+
+    // Cross-origin scripts and non-Error throws have no stack, but the event knows where it happened
+    if (!(event.error instanceof Error) && event.filename) {
+      error.stack = `${error.name}: ${error.message}\n    at ${event.filename}:${event.lineno}:${event.colno}`;
+    }
+
+    this.report(error, 'onerror', {
+      filename: event.filename,
+      lineno: event.lineno,
+      colno: event.colno,
+    });
+  };
+
+  private handleRejection = (event: PromiseRejectionEvent): void => {
+    this.report(this.normalize(event.reason), 'unhandledrejection');
+  };
+
+  private report(error: Error, mechanism: string, extra?: Record<string, unknown>): void {
+    const frames = parseStack(error.stack);
+    const topFrame = frames[0];
+    const signature = [error.name, error.message, topFrame?.file, topFrame?.line, topFrame?.column].join('|');
+
+    const now = Date.now();
+    const lastSeen = this.lastSeen.get(signature);
+    if (lastSeen !== undefined && now - lastSeen < this.dedupeInterval) {
+      this.logger.debug(`Dropping duplicate error: ${error.message}`);
+      return;
+    }
+    this.lastSeen.set(signature, now);
+    this.pruneSeen(now);
+
+    this.onError(error, {
+      severity: 'error',
+      tags: { mechanism, handled: 'false' },
+      extra,
+      frames,
+    });
+  }
+
+  private pruneSeen(now: number): void {
+    for (const [signature, seenAt] of this.lastSeen) {
+      if (now - seenAt >= this.dedupeInterval) {
+        this.lastSeen.delete(signature);
+      }
+    }
+  }
+
+  private describe(value: unknown): string {
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MiddlewarePipeline } from './middleware-pipeline';
+import type { TrackingPayload } from '../definitions';
+
+describe('MiddlewarePipeline', () => {
+  let pipeline: MiddlewarePipeline;
+  const payload: TrackingPayload = { type: 'track', eventName: 'signup', properties: { plan: 'pro' } };
+
+  beforeEach(() => {
+    pipeline = new MiddlewarePipeline();
+  });
+
+  it('should apply middleware in registration order', async () => {
+    pipeline.use((p) => (p.type === 'track' ? { ...p, eventName: `${p.eventName}_completed` } : p));
+    pipeline.use((p) => {
+      if (p.type === 'track') {
+        p.properties = { ...p.properties, enriched: true };
+      }
+    });
+
+    const result = await pipeline.run(payload);
+
+    expect(result).toEqual({
+      type: 'track',
+      eventName: 'signup_completed',
+      properties: { plan: 'pro', enriched: true },
+    });
+  });
+
+  it('should stop the chain when a middleware returns null', async () => {
+    const after = vi.fn();
+    pipeline.use(() => null);
+    pipeline.use(after);
+
+    expect(await pipeline.run(payload)).toBeNull();
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('should continue with the unmodified payload when a middleware throws', async () => {
+    pipeline.use(() => {
+      throw new Error('Broken middleware');
+    });
+
+    expect(await pipeline.run(payload)).toEqual(payload);
+  });
+
+  it('should remove middleware through the returned function', async () => {
+    const remove = pipeline.use(() => null);
+    remove();
+
+    expect(await pipeline.run(payload)).toEqual(payload);
+  });
+
+  it('should only apply destination middleware to its provider', async () => {
+    pipeline.useDestination('mixpanel', (p) => {
+      if (p.type === 'track') {
+        p.properties!.plan = 'redacted';
+      }
+    });
+
+    const mixpanel = await pipeline.runDestination('mixpanel', payload);
+    const amplitude = await pipeline.runDestination('amplitude', payload);
+
+    expect(mixpanel).toMatchObject({ properties: { plan: 'redacted' } });
+    expect(amplitude).toMatchObject({ properties: { plan: 'pro' } });
+  });
+});
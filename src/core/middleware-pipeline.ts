@@ -0,0 +1,103 @@
+import type { Middleware, TrackingPayload } from '../definitions';
+import { Logger } from '../utils/logger';
+
+/**
+ * Ordered middleware chains applied before fan-out (source) and per provider (destination)
+ */
+export class MiddlewarePipeline {
+  private sourceMiddleware: Middleware[] = [];
+  private destinationMiddleware: Map<string, Middleware[]> = new Map();
+  private logger: Logger;
+
+  constructor() {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * Add middleware applied to every payload; returns a function that removes it
+   */
+  use(middleware: Middleware): () => void {
+    this.sourceMiddleware.push(middleware);
+
+    return () => {
+      this.sourceMiddleware = this.sourceMiddleware.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Add middleware applied only to payloads delivered to one provider
+   */
+  useDestination(providerId: string, middleware: Middleware): () => void {
+    const chain = this.destinationMiddleware.get(providerId) || [];
+    this.destinationMiddleware.set(providerId, [...chain, middleware]);
+
+    return () => {
+      const current = this.destinationMiddleware.get(providerId) || [];
+      this.destinationMiddleware.set(
+        providerId,
+        current.filter((m) => m !== middleware),
+      );
+    };
+  }
+
+  /**
+   * Whether payloads for the provider pass through destination middleware
+   */
+  hasDestination(providerId: string): boolean {
+    return (this.destinationMiddleware.get(providerId)?.length ?? 0) > 0;
+  }
+
+  async run(payload: TrackingPayload): Promise<TrackingPayload | null> {
+    return this.runChain(this.sourceMiddleware, payload);
+  }
+
+  async runDestination(providerId: string, payload: TrackingPayload): Promise<TrackingPayload | null> {
+    const chain = this.destinationMiddleware.get(providerId);
+    if (!chain || chain.length === 0) {
+      return payload;
+    }
+
+    // Each destination works on its own copy so edits don't leak to other providers
+    return this.runChain(chain, clonePayload(payload));
+  }
+
+  clear(): void {
+    this.sourceMiddleware = [];
+    this.destinationMiddleware.clear();
+  }
+
+  private async runChain(chain: Middleware[], payload: TrackingPayload): Promise<TrackingPayload | null> {
+    let current = payload;
+
+    for (const middleware of chain) {
+      try {
+        const result = await middleware(current);
+
+        if (result === null) {
+          return null;
+        }
+
+        if (result) {
+          current = result;
+        }
+      } catch (error) {
+        // A broken middleware must not lose the event
+        this.logger.error('Middleware failed, continuing with unmodified payload', error);
+      }
+    }
+
+    return current;
+  }
+}
+
+function clonePayload(payload: TrackingPayload): TrackingPayload {
+  const clone: Record<string, any> = { ...payload };
+
+  for (const key of ['properties', 'traits', 'context', 'revenue']) {
+    if (clone[key] && typeof clone[key] === 'object') {
+      clone[key] = { ...clone[key] };
+    }
+  }
+
+  return clone as TrackingPayload;
+}
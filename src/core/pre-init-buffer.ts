@@ -0,0 +1,83 @@
+import type { PreInitBufferSettings, TrackingPayload } from '../definitions';
+
+export interface BufferedCall {
+  payload: TrackingPayload;
+  timestamp: number;
+  /**
+   * Elapsed time of a timed track() call, added to the event once it is validated
+   */
+  durationMs?: number;
+}
+
+const DEFAULT_SETTINGS: Required<PreInitBufferSettings> = {
+  enabled: true,
+  maxSize: 100,
+  dropPolicy: 'drop-oldest',
+};
+
+/**
+ * Holds facade calls made before initialize() resolves so they can be replayed in order
+ */
+export class PreInitBuffer {
+  private calls: BufferedCall[] = [];
+  private settings: Required<PreInitBufferSettings> = { ...DEFAULT_SETTINGS };
+  private droppedCount = 0;
+
+  constructor(settings?: PreInitBufferSettings) {
+    this.configure(settings);
+  }
+
+  configure(settings?: PreInitBufferSettings): void {
+    this.settings = { ...this.settings, ...settings };
+
+    // Apply a lowered cap to what is already buffered
+    while (this.calls.length > this.settings.maxSize) {
+      this.drop();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Buffer a call; returns false when the call itself was dropped
+   */
+  add(payload: TrackingPayload, durationMs?: number): boolean {
+    if (this.calls.length >= this.settings.maxSize) {
+      if (this.settings.dropPolicy === 'drop-newest' || this.settings.maxSize <= 0) {
+        this.droppedCount++;
+        return false;
+      }
+      this.drop();
+    }
+
+    this.calls.push({ payload, timestamp: Date.now(), durationMs });
+    return true;
+  }
+
+  /**
+   * Remove and return the oldest buffered call
+   */
+  shift(): BufferedCall | undefined {
+    return this.calls.shift();
+  }
+
+  size(): number {
+    return this.calls.length;
+  }
+
+  getDroppedCount(): number {
+    return this.droppedCount;
+  }
+
+  clear(): void {
+    this.calls = [];
+    this.droppedCount = 0;
+  }
+
+  private drop(): void {
+    this.calls.shift();
+    this.droppedCount++;
+  }
+}
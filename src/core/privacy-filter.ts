@@ -0,0 +1,219 @@
+import type { ErrorContext, PiiPatternName, PrivacySettings, TrackingPayload } from '../definitions';
+
+const REDACTED = '[REDACTED]';
+
+// Order matters: JWTs and emails are replaced before the looser number patterns run
+const PII_PATTERNS: Array<{ name: PiiPatternName; regex: RegExp }> = [
+  { name: 'jwt', regex: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+  { name: 'email', regex: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { name: 'creditCard', regex: /(?<![\w-])(?:\d[ -]?){12,18}\d(?![\w-])/g },
+  // Only numbers written like phone numbers: an international prefix, a bracketed area code or
+  // 3-3-4 digits with one separator, so counts, SKUs, order numbers and IP addresses are left alone
+  {
+    name: 'phone',
+    regex:
+      /(?<![\w.+-])(?:\+(?:\d[\s.-]?){7,14}\d|\(\d{2,4}\)[\s.-]?\d{3,4}[\s.-]?\d{3,4}|\d{3}([.-])\d{3}\1\d{4})(?![\w-]|\.\d)/g,
+  },
+];
+
+// Card numbers must start with a known issuer prefix and have one of that issuer's lengths, so
+// long numeric IDs that happen to pass the Luhn check are left alone
+const CARD_ISSUERS: Array<{ prefix: RegExp; lengths: number[] }> = [
+  { prefix: /^4/, lengths: [13, 16, 19] }, // Visa
+  { prefix: /^(?:5[1-5]|2[2-7])/, lengths: [16] }, // Mastercard
+  { prefix: /^3[47]/, lengths: [15] }, // American Express
+  { prefix: /^3(?:0[0-5]|[689])/, lengths: [14, 16] }, // Diners Club
+  { prefix: /^35/, lengths: [16] }, // JCB
+  { prefix: /^6(?:011|4[4-9]|5)/, lengths: [16, 19] }, // Discover
+  { prefix: /^62/, lengths: [16, 19] }, // UnionPay
+];
+
+/**
+ * Strips excluded property paths and redacts PII from payloads before they reach providers
+ */
+export class PrivacyFilter {
+  private excludedPaths: string[][] = [];
+  private patterns: typeof PII_PATTERNS = [];
+  private segmentCache: Map<string, RegExp> = new Map();
+
+  configure(settings: PrivacySettings = {}): void {
+    this.excludedPaths = (settings.excludedProperties || []).map((path) => path.split('.'));
+    this.segmentCache.clear();
+
+    if (settings.redactPii === false) {
+      this.patterns = [];
+    } else {
+      const enabled = settings.piiPatterns;
+      this.patterns = PII_PATTERNS.filter((pattern) => !enabled || enabled.includes(pattern.name));
+    }
+  }
+
+  apply(payload: TrackingPayload): TrackingPayload {
+    if (this.excludedPaths.length === 0 && this.patterns.length === 0) {
+      return payload;
+    }
+
+    switch (payload.type) {
+      case 'track':
+      case 'screenView':
+        return { ...payload, properties: payload.properties && this.filterProperties(payload.properties) };
+      case 'identify':
+        return { ...payload, traits: payload.traits && this.filterProperties(payload.traits) };
+      case 'userProperties':
+        return { ...payload, properties: this.filterProperties(payload.properties) };
+      case 'revenue':
+        return {
+          ...payload,
+          revenue: {
+            ...payload.revenue,
+            properties: payload.revenue.properties && this.filterProperties(payload.revenue.properties),
+          },
+        };
+      case 'error':
+        return { ...payload, error: this.filterError(payload.error), context: this.filterContext(payload.context) };
+    }
+  }
+
+  filterProperties(properties: Record<string, any>): Record<string, any> {
+    return this.filterValue(properties, []);
+  }
+
+  /**
+   * Replace every PII match in a string
+   */
+  redact(value: string): string {
+    return this.patterns.reduce(
+      (result, { name, regex }) =>
+        result.replace(regex, (match) => (name === 'creditCard' && !this.isCardNumber(match) ? match : REDACTED)),
+      value,
+    );
+  }
+
+  private filterValue(value: any, path: string[]): any {
+    if (typeof value === 'string') {
+      return this.redact(value);
+    }
+
+    if (Array.isArray(value)) {
+      // Array items share the path of the array itself
+      return value.map((item) => this.filterValue(item, path));
+    }
+
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      const nestedPath = [...path, key];
+      if (!this.isExcluded(nestedPath)) {
+        result[key] = this.filterValue(nested, nestedPath);
+      }
+    }
+    return result;
+  }
+
+  private filterError(error: Error): Error {
+    if (this.patterns.length === 0) {
+      return error;
+    }
+
+    const message = this.redact(error.message);
+    const stack = error.stack && this.redact(error.stack);
+    if (message === error.message && stack === error.stack) {
+      return error;
+    }
+
+    // Copy the error so the caller's instance is left untouched
+    const filtered: Error = Object.assign(Object.create(Object.getPrototypeOf(error)), error);
+    Object.defineProperty(filtered, 'message', { value: message, writable: true, configurable: true });
+    Object.defineProperty(filtered, 'stack', { value: stack, writable: true, configurable: true });
+    return filtered;
+  }
+
+  private filterContext(context?: ErrorContext): ErrorContext | undefined {
+    if (!context) {
+      return context;
+    }
+
+    return {
+      ...context,
+      tags: context.tags && this.filterProperties(context.tags),
+      user: context.user && this.filterProperties(context.user),
+      extra: context.extra && this.filterProperties(context.extra),
+      breadcrumbs: context.breadcrumbs?.map((breadcrumb) => ({
+        ...breadcrumb,
+        message: this.redact(breadcrumb.message),
+        data: breadcrumb.data && this.filterProperties(breadcrumb.data),
+      })),
+    };
+  }
+
+  private isExcluded(path: string[]): boolean {
+    return this.excludedPaths.some((pattern) => this.matchesPath(pattern, 0, path, 0));
+  }
+
+  /**
+   * "*" matches any characters within one key, "**" matches any number of keys
+   */
+  private matchesPath(pattern: string[], patternIndex: number, path: string[], pathIndex: number): boolean {
+    if (patternIndex === pattern.length) {
+      return pathIndex === path.length;
+    }
+
+    const segment = pattern[patternIndex];
+
+    if (segment === '**') {
+      for (let index = pathIndex; index <= path.length; index++) {
+        if (this.matchesPath(pattern, patternIndex + 1, path, index)) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    return (
+      pathIndex < path.length &&
+      this.matchesSegment(segment, path[pathIndex]) &&
+      this.matchesPath(pattern, patternIndex + 1, path, pathIndex + 1)
+    );
+  }
+
+  private matchesSegment(segment: string, key: string): boolean {
+    if (!segment.includes('*')) {
+      return segment === key;
+    }
+
+    let regex = this.segmentCache.get(segment);
+    if (!regex) {
+      const source = segment
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      regex = new RegExp(`^${source}$`);
+      this.segmentCache.set(segment, regex);
+    }
+    return regex.test(key);
+  }
+
+  private isCardNumber(candidate: string): boolean {
+    const digits = candidate.replace(/\D/g, '');
+    const issued = CARD_ISSUERS.some(({ prefix, lengths }) => prefix.test(digits) && lengths.includes(digits.length));
+    return issued && this.passesLuhn(digits);
+  }
+
+  private passesLuhn(digits: string): boolean {
+    let sum = 0;
+
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i]);
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+
+    return sum % 10 === 0;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ScreenTracker } from './screen-tracker';
+
+describe('ScreenTracker', () => {
+  let onScreen: ReturnType<typeof vi.fn>;
+  let tracker: ScreenTracker;
+
+  // test-setup replaces window.location with a static object, so navigation updates it by hand
+  const navigate = (path: string, method: 'pushState' | 'replaceState' = 'pushState', state: unknown = null) => {
+    (window.location as any).href = `http://localhost:3000${path}`;
+    history[method](state, '', path);
+  };
+
+  beforeEach(() => {
+    (window.location as any).href = 'http://localhost:3000/';
+    onScreen = vi.fn();
+    tracker = new ScreenTracker(onScreen);
+  });
+
+  afterEach(() => {
+    tracker.stop();
+    vi.useRealTimers();
+    (window.location as any).href = 'http://localhost:3000';
+  });
+
+  const name = (url: string) => tracker.getScreenName(new URL(url, 'https://app.example.com'));
+
+  it('should strip ID-like segments and prefer route patterns', () => {
+    expect(name('/users/42/orders/3f2b8c1e-5a4d-4c3b-9e8f-1a2b3c4d5e6f')).toBe('/users/:id/orders/:id');
+    expect(name('/products/blue-shirt/')).toBe('/products/blue-shirt');
+    expect(name('/#/settings/profile')).toBe('/settings/profile');
+
+    tracker.start({ routes: ['/products/:slug', '/docs/*'] });
+    expect(name('/products/blue-shirt')).toBe('/products/:slug');
+    expect(name('/docs/guides/setup')).toBe('/docs/*');
+  });
+
+  it('should track the initial screen and History API navigation', () => {
+    vi.useFakeTimers();
+    navigate('/home', 'replaceState');
+    tracker.start();
+
+    vi.advanceTimersByTime(1500);
+    navigate('/cart');
+
+    expect(onScreen).toHaveBeenNthCalledWith(1, '/home', { path: '/home' });
+    expect(onScreen).toHaveBeenNthCalledWith(2, '/cart', {
+      path: '/cart',
+      referrer: 'http://localhost:3000/home',
+      previous_screen: '/home',
+      time_on_previous_screen_ms: 1500,
+    });
+  });
+
+  it('should ignore navigation that stays on the same screen', () => {
+    tracker.start();
+
+    navigate('/?tab=2', 'replaceState');
+    navigate('/?tab=2', 'pushState', { modal: true });
+
+    expect(onScreen).toHaveBeenCalledTimes(1);
+  });
+
+  it('should track popstate and hash changes', () => {
+    tracker.start();
+
+    (window.location as any).href = 'http://localhost:3000/#/inbox';
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+    (window.location as any).href = 'http://localhost:3000/about';
+    window.dispatchEvent(new PopStateEvent('popstate'));
+
+    expect(onScreen.mock.calls.map(([screen]) => screen)).toEqual(['/', '/inbox', '/about']);
+  });
+
+  it('should use a custom mapper and skip URLs it returns null for', () => {
+    tracker.start({ screenNameMapper: (url) => (url.pathname.startsWith('/admin') ? null : `Page ${url.pathname}`) });
+
+    navigate('/admin');
+    navigate('/pricing');
+
+    expect(onScreen.mock.calls.map(([screen]) => screen)).toEqual(['Page /', 'Page /pricing']);
+  });
+
+  it('should restore the History API on stop', () => {
+    const pushState = history.pushState;
+    tracker.start();
+
+    expect(history.pushState).not.toBe(pushState);
+    tracker.stop();
+    expect(history.pushState).toBe(pushState);
+
+    navigate('/after-stop');
+    expect(onScreen).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,174 @@
+import type { ScreenTrackingSettings } from '../definitions';
+import { Logger } from '../utils/logger';
+
+type HistoryMethod = 'pushState' | 'replaceState';
+
+const HISTORY_METHODS: HistoryMethod[] = ['pushState', 'replaceState'];
+
+// Numbers, UUIDs, long hex strings and long tokens containing a digit
+const ID_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{12,}|(?=[\w-]*\d)[\w-]{16,})$/i;
+
+/**
+ * Reports a screen view for every History API and hash navigation, whichever router the app uses
+ */
+export class ScreenTracker {
+  private logger: Logger;
+  private settings: ScreenTrackingSettings = {};
+  private started = false;
+  private originals: Partial<Record<HistoryMethod, History[HistoryMethod]>> = {};
+  private wrappers: Partial<Record<HistoryMethod, History[HistoryMethod]>> = {};
+  private currentScreen?: string;
+  private currentPath?: string;
+  private currentUrl?: string;
+  private screenStartedAt = 0;
+
+  constructor(private onScreen: (screenName: string, properties: Record<string, unknown>) => void) {
+    this.logger = Logger.getInstance('ScreenTracker');
+  }
+
+  /**
+   * Start listening for navigation and report the current screen
+   */
+  start(settings: ScreenTrackingSettings = {}): void {
+    if (typeof window === 'undefined' || typeof history === 'undefined') {
+      return;
+    }
+
+    this.stop();
+    this.settings = settings;
+    this.started = true;
+
+    for (const method of HISTORY_METHODS) {
+      const original = history[method];
+      const handleNavigation = this.handleNavigation;
+      const wrapper = function (this: History, ...args: Parameters<History['pushState']>) {
+        const result = original.apply(this, args);
+        handleNavigation();
+        return result;
+      };
+
+      this.originals[method] = original;
+      this.wrappers[method] = wrapper;
+      history[method] = wrapper;
+    }
+
+    window.addEventListener('popstate', this.handleNavigation);
+    window.addEventListener('hashchange', this.handleNavigation);
+
+    this.handleNavigation();
+  }
+
+  stop(): void {
+    if (!this.started) return;
+
+    for (const method of HISTORY_METHODS) {
+      // Another library may have wrapped ours since; it then keeps calling our now inactive wrapper
+      if (history[method] === this.wrappers[method]) {
+        history[method] = this.originals[method]!;
+      }
+    }
+
+    window.removeEventListener('popstate', this.handleNavigation);
+    window.removeEventListener('hashchange', this.handleNavigation);
+
+    this.started = false;
+    this.originals = {};
+    this.wrappers = {};
+    this.currentScreen = undefined;
+    this.currentPath = undefined;
+    this.currentUrl = undefined;
+  }
+
+  /**
+   * Screen name for a URL, or null when the URL should not be tracked
+   */
+  getScreenName(url: URL): string | null {
+    if (this.settings.screenNameMapper) {
+      return this.settings.screenNameMapper(url);
+    }
+
+    const path = this.getPath(url);
+
+    for (const route of this.settings.routes || []) {
+      if (this.matchesRoute(route, path)) {
+        return route;
+      }
+    }
+
+    if (this.settings.stripIds === false) {
+      return path;
+    }
+
+    return path
+      .split('/')
+      .map((segment) => (ID_SEGMENT.test(segment) ? ':id' : segment))
+      .join('/');
+  }
+
+  private handleNavigation = (): void => {
+    if (!this.started) return;
+
+    const url = new URL(window.location.href);
+    let screenName: string | null;
+
+    try {
+      screenName = this.getScreenName(url);
+    } catch (error) {
+      this.logger.error('Failed to name screen', error);
+      return;
+    }
+
+    const path = this.getPath(url);
+
+    // replaceState calls that only touch the query or state are not new screens
+    if (!screenName || (screenName === this.currentScreen && path === this.currentPath)) {
+      return;
+    }
+
+    const now = Date.now();
+    const referrer = this.currentUrl ?? (typeof document !== 'undefined' ? document.referrer : '');
+    const properties: Record<string, unknown> = { path };
+
+    if (referrer) {
+      properties.referrer = referrer;
+    }
+
+    if (this.currentScreen) {
+      properties.previous_screen = this.currentScreen;
+      properties.time_on_previous_screen_ms = now - this.screenStartedAt;
+    }
+
+    this.currentScreen = screenName;
+    this.currentPath = path;
+    this.currentUrl = url.href;
+    this.screenStartedAt = now;
+
+    this.onScreen(screenName, properties);
+  };
+
+  private getPath(url: URL): string {
+    let path = url.pathname;
+
+    if (this.settings.trackHashRoutes !== false && url.hash.startsWith('#/')) {
+      path = url.hash.slice(1).split('?')[0];
+    }
+
+    return path.length > 1 ? path.replace(/\/+$/, '') : path;
+  }
+
+  private matchesRoute(route: string, path: string): boolean {
+    const routeSegments = route.split('/');
+    const pathSegments = path.split('/');
+
+    for (let i = 0; i < routeSegments.length; i++) {
+      const segment = routeSegments[i];
+
+      if (segment === '*') return true;
+      if (pathSegments[i] === undefined) return false;
+      if (segment.startsWith(':') ? !pathSegments[i] : segment !== pathSegments[i]) return false;
+    }
+
+    return routeSegments.length === pathSegments.length;
+  }
+}
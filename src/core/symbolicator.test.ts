@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Symbolicator } from './symbolicator';
+
+// Line 1: column 0 -> src/app.ts 10:2 (handleClick), column 15 -> 20:4 (render); line 2: column 5 -> 21:0
+const sourceMap = {
+  version: 3,
+  sources: ['src/app.ts'],
+  names: ['handleClick', 'render'],
+  mappings: 'AASEA,eAUEC;KACJ',
+  sourceRoot: 'webpack://',
+};
+
+describe('Symbolicator', () => {
+  let symbolicator: Symbolicator;
+  const file = 'https://app.example.com/assets/main.min.js';
+
+  beforeEach(() => {
+    symbolicator = new Symbolicator();
+  });
+
+  it('should map frames to original positions', async () => {
+    symbolicator.configure({ sourceMaps: { 'assets/main.min.js': sourceMap } });
+
+    const frames = await symbolicator.symbolicate([
+      { file, line: 1, column: 20, function: 'a', inApp: true },
+      { file, line: 1, column: 3, function: 'b', inApp: true },
+      { file, line: 2, column: 10, function: 'c', inApp: true },
+    ]);
+
+    expect(frames).toEqual([
+      { file: 'webpack://src/app.ts', line: 20, column: 5, function: 'render', inApp: true },
+      { file: 'webpack://src/app.ts', line: 10, column: 3, function: 'handleClick', inApp: true },
+      { file: 'webpack://src/app.ts', line: 21, column: 1, function: 'c', inApp: true },
+    ]);
+  });
+
+  it('should keep frames without a source map and cache loaded maps', async () => {
+    const loadSourceMap = vi.fn(async (generated: string) => (generated === file ? JSON.stringify(sourceMap) : null));
+    symbolicator.configure({ loadSourceMap });
+    const vendor = { file: 'https://cdn.example.com/vendor.js', line: 1, column: 1, function: 'x', inApp: true };
+
+    await symbolicator.symbolicate([{ file, line: 1, column: 1 }, vendor]);
+    const [mapped, unmapped] = await symbolicator.symbolicate([{ file, line: 1, column: 1 }, vendor]);
+
+    expect(mapped.function).toBe('handleClick');
+    expect(unmapped).toBe(vendor);
+    expect(loadSourceMap).toHaveBeenCalledTimes(2);
+  });
+
+  describe('local source maps', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'symbolicator-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read source maps from local paths', async () => {
+      const path = join(dir, 'main.min.js.map');
+      writeFileSync(path, JSON.stringify(sourceMap));
+      symbolicator.configure({ sourceMapPaths: { 'main.min.js': path } });
+
+      const [frame] = await symbolicator.symbolicate([{ file, line: 1, column: 16 }]);
+
+      expect(frame).toEqual(expect.objectContaining({ line: 20, function: 'render' }));
+    });
+  });
+});
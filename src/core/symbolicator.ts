@@ -0,0 +1,229 @@
+import type { SourceMap, StackFrame, SymbolicationSettings } from '../definitions';
+import { Logger } from '../utils/logger';
+
+// [generated column, source index, original line, original column, name index?], all 0-based
+type Segment = [number, number, number, number, number?];
+
+interface ParsedSourceMap {
+  sources: string[];
+  names: string[];
+  // Segments per generated line, sorted by generated column
+  lines: Segment[][];
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES: Record<string, number> = Object.fromEntries(BASE64.split('').map((char, index) => [char, index]));
+
+/**
+ * Maps minified stack frames back to original sources using source maps registered
+ * in config or loaded on demand. Parsed maps are cached per generated file.
+ */
+export class Symbolicator {
+  private logger: Logger;
+  private sources: Map<string, SourceMap | string> = new Map();
+  private localPaths: Map<string, string> = new Map();
+  private loader?: (file: string) => Promise<SourceMap | string | null>;
+  private cache: Map<string, Promise<ParsedSourceMap | null>> = new Map();
+
+  constructor() {
+    this.logger = Logger.getInstance('Symbolicator');
+  }
+
+  configure(settings: SymbolicationSettings = {}): void {
+    this.sources.clear();
+    this.localPaths.clear();
+    this.cache.clear();
+    this.loader = settings.loadSourceMap;
+
+    Object.entries(settings.sourceMaps || {}).forEach(([file, map]) => this.register(file, map));
+    Object.entries(settings.sourceMapPaths || {}).forEach(([file, path]) => this.localPaths.set(file, path));
+  }
+
+  /**
+   * Register the source map of a generated file, by URL or by path suffix such as "assets/index.js"
+   */
+  register(file: string, map: SourceMap | string): void {
+    this.sources.set(file, map);
+    this.cache.delete(file);
+  }
+
+  isEnabled(): boolean {
+    return this.sources.size > 0 || this.localPaths.size > 0 || this.loader !== undefined;
+  }
+
+  /**
+   * Frames mapped to their original file, line, column and function; frames without a map are kept as they are
+   */
+  async symbolicate(frames: StackFrame[]): Promise<StackFrame[]> {
+    return Promise.all(frames.map((frame) => this.symbolicateFrame(frame)));
+  }
+
+  private async symbolicateFrame(frame: StackFrame): Promise<StackFrame> {
+    if (!frame.file || frame.line === undefined) {
+      return frame;
+    }
+
+    const map = await this.getMap(frame.file);
+    const segment = map && this.findSegment(map, frame.line - 1, (frame.column ?? 1) - 1);
+    if (!map || !segment) {
+      return frame;
+    }
+
+    const [, sourceIndex, line, column, nameIndex] = segment;
+    const file = map.sources[sourceIndex];
+
+    return {
+      file,
+      line: line + 1,
+      column: column + 1,
+      function: (nameIndex !== undefined && map.names[nameIndex]) || frame.function,
+      inApp: frame.inApp !== false && !file.includes('/node_modules/'),
+    };
+  }
+
+  private getMap(file: string): Promise<ParsedSourceMap | null> {
+    const key = this.findKey(file);
+    const cacheKey = key ?? file;
+
+    let parsed = this.cache.get(cacheKey);
+    if (!parsed) {
+      parsed = this.load(file, key)
+        .then((raw) => (raw ? parseSourceMap(raw) : null))
+        .catch((error) => {
+          this.logger.warn(`Failed to load source map for ${file}`, error);
+          return null;
+        });
+      this.cache.set(cacheKey, parsed);
+    }
+
+    return parsed;
+  }
+
+  private async load(file: string, key: string | undefined): Promise<SourceMap | string | null> {
+    if (key && this.sources.has(key)) {
+      return this.sources.get(key)!;
+    }
+
+    if (key && this.localPaths.has(key)) {
+      return readLocalFile(this.localPaths.get(key)!);
+    }
+
+    return this.loader ? this.loader(file) : null;
+  }
+
+  private findKey(file: string): string | undefined {
+    const keys = [...this.sources.keys(), ...this.localPaths.keys()];
+
+    return keys.find((key) => key === file) || keys.find((key) => file.endsWith(key.startsWith('/') ? key : `/${key}`));
+  }
+
+  private findSegment(map: ParsedSourceMap, line: number, column: number): Segment | undefined {
+    const segments = map.lines[line];
+    if (!segments?.length) return undefined;
+
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found: Segment | undefined;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid][0] <= column) {
+        found = segments[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found;
+  }
+}
+
+function parseSourceMap(raw: SourceMap | string): ParsedSourceMap {
+  const map: SourceMap = typeof raw === 'string' ? JSON.parse(raw) : raw;
+
+  if (map.version !== 3 || typeof map.mappings !== 'string') {
+    throw new Error('Only version 3 source maps with mappings are supported');
+  }
+
+  const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, '/') : '';
+
+  return {
+    sources: map.sources.map((source) => (root && !/^[a-z]+:/i.test(source) ? root + source : source)),
+    names: map.names || [],
+    lines: decodeMappings(map.mappings),
+  };
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  // Every field except the generated column is relative to the previous segment in the file
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+
+      const fields = decodeVlq(encoded);
+      generatedColumn += fields[0];
+
+      // Segments without a source position map to nothing
+      if (fields.length < 4) continue;
+
+      sourceIndex += fields[1];
+      originalLine += fields[2];
+      originalColumn += fields[3];
+
+      const segment: Segment = [generatedColumn, sourceIndex, originalLine, originalColumn];
+      if (fields.length >= 5) {
+        nameIndex += fields[4];
+        segment[4] = nameIndex;
+      }
+      segments.push(segment);
+    }
+
+    lines.push(segments.sort((a, b) => a[0] - b[0]));
+  }
+
+  return lines;
+}
+
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_VALUES[char];
+    if (digit === undefined) {
+      throw new Error(`Invalid source map mapping: ${encoded}`);
+    }
+
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      // The lowest bit is the sign
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+async function readLocalFile(path: string): Promise<string> {
+  // Kept out of reach of bundlers; local paths only work where Node's fs is available
+  const fsModule = 'fs/promises';
+  const fs = await import(/* @vite-ignore */ fsModule);
+  return fs.readFile(path, 'utf8');
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TrackingPlanValidator } from './tracking-plan-validator';
+import type { TrackingPlan } from '../definitions';
+
+const plan: TrackingPlan = {
+  events: {
+    checkout_started: {
+      required: ['cartValue', 'currency'],
+      properties: {
+        cartValue: { type: 'number', minimum: 0 },
+        currency: { type: 'string', enum: ['USD', 'EUR'] },
+        coupon: { type: ['string', 'null'], pattern: '^[A-Z0-9]+$' },
+        items: {
+          type: 'array',
+          items: { type: 'object', required: ['sku'], properties: { sku: { type: 'string' } } },
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  screens: {
+    Home: { properties: { tab: { type: 'string' } } },
+  },
+};
+
+describe('TrackingPlanValidator', () => {
+  let validator: TrackingPlanValidator;
+
+  beforeEach(() => {
+    validator = new TrackingPlanValidator();
+    validator.setPlan(plan, 'warn');
+  });
+
+  it('should accept events that match the plan', () => {
+    const result = validator.validateEvent('checkout_started', {
+      cartValue: 42,
+      currency: 'USD',
+      coupon: null,
+      items: [{ sku: 'A-1' }],
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('should report missing required properties and wrong types', () => {
+    const result = validator.validateEvent('checkout_started', { cartValue: '42' });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => issue.path)).toEqual(['currency', 'cartValue']);
+  });
+
+  it('should report enum, pattern and nested violations', () => {
+    const result = validator.validateEvent('checkout_started', {
+      cartValue: 1,
+      currency: 'GBP',
+      coupon: 'save 10',
+      items: [{ price: 3 }],
+    });
+
+    expect(result.issues.map((issue) => issue.path)).toEqual(['currency', 'coupon', 'items[0].sku']);
+  });
+
+  it('should strip invalid and unexpected properties from the sanitized copy', () => {
+    const result = validator.validateEvent('checkout_started', {
+      cartValue: -5,
+      currency: 'EUR',
+      debug: true,
+    });
+
+    expect(result.sanitized).toEqual({ currency: 'EUR' });
+  });
+
+  it('should flag unplanned events unless allowed', () => {
+    expect(validator.validateEvent('unknown_event').valid).toBe(false);
+
+    validator.setPlan({ ...plan, allowUnplannedEvents: true });
+    expect(validator.validateEvent('unknown_event').valid).toBe(true);
+  });
+
+  it('should only validate screens when the plan lists them', () => {
+    expect(validator.validateScreen('Home', { tab: 3 }).valid).toBe(false);
+
+    validator.setPlan({ events: {} });
+    expect(validator.validateScreen('Anything', { tab: 3 }).valid).toBe(true);
+  });
+});
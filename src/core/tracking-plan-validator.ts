@@ -0,0 +1,194 @@
+import type {
+  EventSchema,
+  PropertySchema,
+  PropertyType,
+  TrackingPlan,
+  ValidationIssue,
+  ValidationMode,
+} from '../definitions';
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+
+  /**
+   * Properties without the top-level keys that failed validation
+   */
+  sanitized: Record<string, any>;
+}
+
+/**
+ * Validates event and screen properties against a registered tracking plan
+ */
+export class TrackingPlanValidator {
+  private plan?: TrackingPlan;
+  private mode: ValidationMode = 'warn';
+  private patternCache: Map<string, RegExp> = new Map();
+
+  setPlan(plan?: TrackingPlan, mode: ValidationMode = 'warn'): void {
+    this.plan = plan;
+    this.mode = mode;
+    this.patternCache.clear();
+  }
+
+  hasPlan(): boolean {
+    return !!this.plan;
+  }
+
+  getMode(): ValidationMode {
+    return this.mode;
+  }
+
+  validateEvent(eventName: string, properties: Record<string, any> = {}): ValidationResult {
+    if (!this.plan) {
+      return { valid: true, issues: [], sanitized: properties };
+    }
+
+    return this.validate(this.plan.events[eventName], `Event "${eventName}"`, properties);
+  }
+
+  validateScreen(screenName: string, properties: Record<string, any> = {}): ValidationResult {
+    if (!this.plan?.screens) {
+      return { valid: true, issues: [], sanitized: properties };
+    }
+
+    return this.validate(this.plan.screens[screenName], `Screen "${screenName}"`, properties);
+  }
+
+  private validate(schema: EventSchema | undefined, label: string, properties: Record<string, any>): ValidationResult {
+    if (!schema) {
+      const allowed = this.plan?.allowUnplannedEvents === true;
+      return {
+        valid: allowed,
+        issues: allowed ? [] : [{ path: '', message: `${label} is not in the tracking plan` }],
+        sanitized: properties,
+      };
+    }
+
+    const issues: ValidationIssue[] = [];
+    const invalidKeys = new Set<string>();
+
+    for (const key of schema.required || []) {
+      if (properties[key] === undefined) {
+        issues.push({ path: key, message: `Missing required property "${key}"` });
+      }
+    }
+
+    for (const [key, value] of Object.entries(properties)) {
+      const propertySchema = schema.properties?.[key];
+
+      if (!propertySchema) {
+        if (schema.additionalProperties === false) {
+          issues.push({ path: key, message: `Unexpected property "${key}"` });
+          invalidKeys.add(key);
+        }
+        continue;
+      }
+
+      const before = issues.length;
+      this.validateValue(propertySchema, value, key, issues);
+      if (issues.length > before) {
+        invalidKeys.add(key);
+      }
+    }
+
+    const sanitized = { ...properties };
+    invalidKeys.forEach((key) => delete sanitized[key]);
+
+    return { valid: issues.length === 0, issues, sanitized };
+  }
+
+  private validateValue(schema: PropertySchema, value: any, path: string, issues: ValidationIssue[]): void {
+    if (value === undefined) {
+      return;
+    }
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => this.matchesType(type, value))) {
+        issues.push({ path, message: `Expected ${types.join(' | ')}, got ${this.describeType(value)}` });
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      issues.push({ path, message: `Value must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}` });
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ path, message: `Must be at least ${schema.minLength} characters` });
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+      }
+      if (schema.pattern && !this.compilePattern(schema.pattern).test(value)) {
+        issues.push({ path, message: `Must match pattern ${schema.pattern}` });
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, message: `Must be >= ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ path, message: `Must be <= ${schema.maximum}` });
+      }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => this.validateValue(schema.items!, item, `${path}[${index}]`, issues));
+    }
+
+    if (this.matchesType('object', value)) {
+      for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+          issues.push({ path: `${path}.${key}`, message: `Missing required property "${key}"` });
+        }
+      }
+
+      for (const [key, nested] of Object.entries(value)) {
+        const nestedSchema = schema.properties?.[key];
+        if (nestedSchema) {
+          this.validateValue(nestedSchema, nested, `${path}.${key}`, issues);
+        } else if (schema.additionalProperties === false) {
+          issues.push({ path: `${path}.${key}`, message: `Unexpected property "${key}"` });
+        }
+      }
+    }
+  }
+
+  private matchesType(type: PropertyType, value: any): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'null':
+        return value === null;
+    }
+  }
+
+  private describeType(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private compilePattern(pattern: string): RegExp {
+    let regex = this.patternCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern);
+      this.patternCache.set(pattern, regex);
+    }
+    return regex;
+  }
+}
@@ -0,0 +1,610 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UnifiedTrackingCore } from './unified-tracking-core';
+import { SessionManager } from '../utils/session-manager';
+import { IdentityManager } from '../utils/identity-manager';
+import { SuperProperties } from '../utils/super-properties';
+import { EventTimer } from '../utils/event-timer';
+import { ConsentStore } from '../utils/consent-store';
+import { ConfigManager } from '../utils/config-manager';
+
+describe('UnifiedTrackingCore', () => {
+  let core: UnifiedTrackingCore;
+  let providerManager: any;
+  const config = {
+    autoDetect: false,
+    settings: {
+      session: { enabled: false },
+      autoTrackScreens: false,
+      autoTrackErrors: false,
+      breadcrumbs: { enabled: false },
+    },
+  };
+
+  beforeEach(() => {
+    (SessionManager as any).instance = undefined;
+    (IdentityManager as any).instance = undefined;
+    (SuperProperties as any).instance = undefined;
+    (EventTimer as any).instance = undefined;
+    (ConsentStore as any).instance = undefined;
+    (ConfigManager as any).instance = undefined;
+    core = new UnifiedTrackingCore();
+
+    providerManager = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      getActiveProviders: vi.fn().mockReturnValue([]),
+      trackEvent: vi.fn().mockResolvedValue(undefined),
+      identifyUser: vi.fn().mockResolvedValue(undefined),
+      setUserProperties: vi.fn().mockResolvedValue(undefined),
+      logError: vi.fn().mockResolvedValue(undefined),
+      logRevenue: vi.fn().mockResolvedValue(undefined),
+      logScreenView: vi.fn().mockResolvedValue(undefined),
+      handleConsentChange: vi.fn().mockResolvedValue(undefined),
+      reset: vi.fn().mockResolvedValue(undefined),
+      setAnonymousId: vi.fn().mockResolvedValue(undefined),
+      forgetUser: vi.fn().mockResolvedValue(undefined),
+      shutdown: vi.fn().mockResolvedValue(undefined),
+    };
+    core['providerManager'] = providerManager;
+  });
+
+  describe('pre-initialization buffering', () => {
+    it('should replay calls made before initialize in order', async () => {
+      await core.track('first', { step: 1 });
+      await core.identify('user-1');
+      await core.logScreenView('Home');
+
+      expect(providerManager.trackEvent).not.toHaveBeenCalled();
+
+      await core.initialize(config);
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith(
+        'first',
+        expect.objectContaining({ step: 1 }),
+        expect.any(Number),
+      );
+      expect(providerManager.identifyUser).toHaveBeenCalledWith(
+        'user-1',
+        undefined,
+        expect.any(String),
+        expect.any(Number),
+      );
+      expect(providerManager.logScreenView).toHaveBeenCalledWith('Home', expect.any(Object), expect.any(Number));
+      expect(providerManager.trackEvent.mock.invocationCallOrder[0]).toBeLessThan(
+        providerManager.identifyUser.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should keep the original timestamp of buffered events', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+      await core.track('early');
+      vi.setSystemTime(new Date('2025-01-01T00:00:05.000Z'));
+      vi.useRealTimers();
+
+      await core.initialize(config);
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('early', {}, Date.parse('2025-01-01T00:00:00.000Z'));
+    });
+
+    it('should drop the oldest calls once the cap is reached', async () => {
+      core.configurePreInitBuffer({ maxSize: 2, dropPolicy: 'drop-oldest' });
+
+      await core.track('one');
+      await core.track('two');
+      await core.track('three');
+      await core.initialize(config);
+
+      const events = providerManager.trackEvent.mock.calls.map((call: any[]) => call[0]);
+      expect(events).toEqual(['two', 'three']);
+    });
+
+    it('should drop new calls with the drop-newest policy', async () => {
+      core.configurePreInitBuffer({ maxSize: 1, dropPolicy: 'drop-newest' });
+
+      await core.track('one');
+      await core.track('two');
+      await core.initialize(config);
+
+      const events = providerManager.trackEvent.mock.calls.map((call: any[]) => call[0]);
+      expect(events).toEqual(['one']);
+    });
+
+    it('should throw before initialize when buffering is disabled', async () => {
+      core.configurePreInitBuffer({ enabled: false });
+
+      await expect(core.track('event')).rejects.toThrow('not initialized');
+    });
+  });
+
+  describe('middleware', () => {
+    beforeEach(async () => {
+      await core.initialize(config);
+    });
+
+    it('should let middleware rename and enrich events before fan-out', async () => {
+      core.use((payload) => {
+        if (payload.type === 'track') {
+          return {
+            ...payload,
+            eventName: payload.eventName.toLowerCase(),
+            properties: { ...payload.properties, tenant: 'acme' },
+          };
+        }
+        return payload;
+      });
+
+      await core.track('Checkout', { total: 10 });
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('checkout', { total: 10, tenant: 'acme' });
+    });
+
+    it('should not fan out payloads dropped by middleware', async () => {
+      core.use((payload) => (payload.type === 'error' ? null : payload));
+
+      await core.logError('ignored');
+      await core.logScreenView('Home');
+
+      expect(providerManager.logError).not.toHaveBeenCalled();
+      expect(providerManager.logScreenView).toHaveBeenCalledWith('Home', {});
+    });
+  });
+
+  describe('tracking plan', () => {
+    const trackingPlan = {
+      events: {
+        signup: { required: ['method'], properties: { method: { type: 'string' as const } } },
+      },
+    };
+
+    beforeEach(async () => {
+      await core.initialize(config);
+    });
+
+    it('should emit validationError and still send in warn mode', async () => {
+      const listener = vi.fn();
+      await core.addListener('validationError', listener);
+      core.setTrackingPlan(trackingPlan, 'warn');
+
+      await core.track('signup', { method: 42 });
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'validationError', kind: 'track', name: 'signup', mode: 'warn' }),
+      );
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('signup', { method: 42 });
+    });
+
+    it('should reject invalid events in strict mode', async () => {
+      core.setTrackingPlan(trackingPlan, 'strict');
+
+      await expect(core.track('signup')).rejects.toThrow('Tracking plan violation');
+      expect(providerManager.trackEvent).not.toHaveBeenCalled();
+    });
+
+    it('should drop invalid properties in drop-invalid-properties mode', async () => {
+      core.setTrackingPlan(trackingPlan, 'drop-invalid-properties');
+
+      await core.track('signup', { method: 42, plan: 'pro' });
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('signup', { plan: 'pro' });
+    });
+  });
+
+  describe('sessions', () => {
+    beforeEach(async () => {
+      await core.initialize({
+        autoDetect: false,
+        settings: { autoTrackScreens: false, autoTrackErrors: false, breadcrumbs: { enabled: false } },
+      });
+    });
+
+    it('should track session_start and stamp session_id on events', async () => {
+      const sessionId = core.getSessionId();
+
+      await core.track('clicked');
+      await core.logError('boom');
+
+      expect(sessionId).toEqual(expect.any(String));
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('session_start', { session_id: sessionId });
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('clicked', { session_id: sessionId });
+      expect(providerManager.logError).toHaveBeenCalledWith(expect.any(Error), {
+        tags: { session_id: sessionId },
+      });
+    });
+
+    it('should rotate the session after the inactivity timeout', async () => {
+      const firstId = core.getSessionId();
+
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.now() + 31 * 60 * 1000);
+      await core.track('returned');
+      vi.useRealTimers();
+
+      const secondId = core.getSessionId();
+      expect(secondId).not.toBe(firstId);
+      expect(providerManager.trackEvent).toHaveBeenCalledWith(
+        'session_end',
+        expect.objectContaining({ session_id: firstId, duration_ms: expect.any(Number) }),
+      );
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('returned', { session_id: secondId });
+    });
+  });
+
+  describe('identity', () => {
+    beforeEach(async () => {
+      await core.initialize({ ...config, settings: { ...config.settings, userIdGenerator: () => 'anon-1' } });
+    });
+
+    it('should push the anonymous ID to providers before initializing them', () => {
+      expect(core.getAnonymousId()).toBe('anon-1');
+      expect(providerManager.setAnonymousId).toHaveBeenCalledWith('anon-1');
+      expect(providerManager.setAnonymousId.mock.invocationCallOrder[0]).toBeLessThan(
+        providerManager.initialize.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should alias the anonymous ID only on the first identify', async () => {
+      await core.identify('user-1');
+      await core.identify('user-2');
+
+      expect(providerManager.identifyUser).toHaveBeenNthCalledWith(1, 'user-1', undefined, 'anon-1');
+      expect(providerManager.identifyUser).toHaveBeenNthCalledWith(2, 'user-2', undefined, undefined);
+    });
+
+    it('should start a new anonymous identity on reset', async () => {
+      await core.identify('user-1');
+      await core.reset();
+      await core.identify('user-2');
+
+      expect(providerManager.setAnonymousId).toHaveBeenLastCalledWith('anon-1');
+      expect(providerManager.identifyUser).toHaveBeenLastCalledWith('user-2', undefined, 'anon-1');
+    });
+  });
+
+  describe('super properties', () => {
+    beforeEach(async () => {
+      await core.initialize(config);
+      core.register({ app_version: '2.0.0', build: { channel: 'beta' } });
+    });
+
+    it('should add super properties to every event without overriding call properties', async () => {
+      await core.track('opened', { app_version: 'override' });
+      await core.logScreenView('Home');
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('opened', {
+        app_version: 'override',
+        build: { channel: 'beta' },
+      });
+      expect(providerManager.logScreenView).toHaveBeenCalledWith('Home', {
+        app_version: '2.0.0',
+        build: { channel: 'beta' },
+      });
+    });
+
+    it('should add super properties to errors as tags and extra', async () => {
+      await core.logError('boom', { tags: { area: 'checkout' } });
+
+      expect(providerManager.logError).toHaveBeenCalledWith(expect.any(Error), {
+        tags: { app_version: '2.0.0', area: 'checkout' },
+        extra: { build: { channel: 'beta' } },
+      });
+    });
+
+    it('should stop sending unregistered properties', async () => {
+      core.unregister('build');
+      await core.track('opened');
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('opened', { app_version: '2.0.0' });
+    });
+  });
+
+  describe('timed events', () => {
+    it('should add duration_ms to the next track call for a timed event', async () => {
+      vi.useFakeTimers();
+      await core.initialize(config);
+
+      core.time('upload');
+      vi.advanceTimersByTime(2500);
+      await core.track('upload', { size: 10 });
+      await core.track('upload');
+      vi.useRealTimers();
+
+      expect(providerManager.trackEvent).toHaveBeenNthCalledWith(1, 'upload', { duration_ms: 2500, size: 10 });
+      expect(providerManager.trackEvent).toHaveBeenNthCalledWith(2, 'upload', {});
+    });
+
+    it('should add duration_ms after checking the tracking plan', async () => {
+      vi.useFakeTimers();
+      await core.initialize(config);
+      core.setTrackingPlan(
+        { events: { upload: { properties: { size: { type: 'number' } }, additionalProperties: false } } },
+        'strict',
+      );
+
+      core.time('upload');
+      vi.advanceTimersByTime(300);
+      await core.track('upload', { size: 10 });
+      vi.useRealTimers();
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('upload', { duration_ms: 300, size: 10 });
+    });
+
+    it('should measure buffered events when track is called', async () => {
+      vi.useFakeTimers();
+      core.time('boot');
+      vi.advanceTimersByTime(800);
+      await core.track('boot');
+      vi.advanceTimersByTime(5000);
+      vi.useRealTimers();
+
+      await core.initialize(config);
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith(
+        'boot',
+        expect.objectContaining({ duration_ms: 800 }),
+        expect.any(Number),
+      );
+    });
+  });
+
+  describe('privacy', () => {
+    it('should filter payloads after middleware and before providers', async () => {
+      await core.initialize({
+        ...config,
+        settings: { ...config.settings, privacy: { excludedProperties: ['secret'] } },
+      });
+      core.use((payload) => {
+        if (payload.type === 'track') {
+          payload.properties = { ...payload.properties, contact: 'ada@example.com', secret: 'x' };
+        }
+      });
+
+      await core.track('signed_up');
+
+      expect(providerManager.trackEvent).toHaveBeenCalledWith('signed_up', { contact: '[REDACTED]' });
+    });
+  });
+
+  describe('consent persistence', () => {
+    const storedConsent = (record: object) => {
+      vi.mocked(localStorage.getItem).mockImplementation((key: string) =>
+        key === 'unified_tracking_consent' ? JSON.stringify(record) : null,
+      );
+    };
+
+    it('should restore stored consent before providers initialize', async () => {
+      storedConsent({ consent: { analytics: false }, policyVersion: '1', updatedAt: '2025-01-01T00:00:00.000Z' });
+
+      await core.initialize({ ...config, settings: { ...config.settings, consentPolicyVersion: '1' } });
+
+      expect(ConfigManager.getInstance().getConsent().analytics).toBe(false);
+      expect(core.isConsentRenewalRequired()).toBe(false);
+    });
+
+    it('should discard consent for an older policy version and signal renewal', async () => {
+      storedConsent({ consent: { analytics: false }, policyVersion: '1', updatedAt: '2025-01-01T00:00:00.000Z' });
+      const listener = vi.fn();
+      await core.addListener('consentRenewalRequired', listener);
+
+      await core.initialize({ ...config, settings: { ...config.settings, consentPolicyVersion: '2' } });
+
+      expect(ConfigManager.getInstance().getConsent().analytics).toBe(true);
+      expect(core.isConsentRenewalRequired()).toBe(true);
+      expect(listener).toHaveBeenCalledWith({
+        type: 'consentRenewalRequired',
+        policyVersion: '2',
+        previousPolicyVersion: '1',
+      });
+    });
+
+    it('should store consent set before initialization under the configured policy version', async () => {
+      const stored = new Map<string, string>();
+      vi.mocked(localStorage.getItem).mockImplementation((key: string) => stored.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => stored.set(key, value));
+
+      await core.setConsent({ marketing: false });
+      await core.initialize({ ...config, settings: { ...config.settings, consentPolicyVersion: '2' } });
+
+      expect(JSON.parse(stored.get('unified_tracking_consent')!).policyVersion).toBe('2');
+      expect(await core.getConsentAuditLog()).toEqual([
+        expect.objectContaining({ policyVersion: '2', changes: { marketing: false } }),
+      ]);
+
+      (ConsentStore as any).instance = undefined;
+      (ConfigManager as any).instance = undefined;
+      const nextLaunch = new UnifiedTrackingCore();
+      await nextLaunch.initialize({ ...config, settings: { ...config.settings, consentPolicyVersion: '2' } });
+
+      expect(nextLaunch.isConsentRenewalRequired()).toBe(false);
+      expect(ConfigManager.getInstance().getConsent().marketing).toBe(false);
+
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.setItem).mockReset();
+    });
+
+    it('should persist consent changes and record them in the audit log', async () => {
+      vi.mocked(localStorage.getItem).mockReturnValue(null);
+      await core.initialize({ ...config, settings: { ...config.settings, consentPolicyVersion: '2' } });
+
+      await core.setConsent({ marketing: false });
+
+      const log = await core.getConsentAuditLog();
+      expect(log).toEqual([
+        expect.objectContaining({
+          policyVersion: '2',
+          changes: { marketing: false },
+          consent: expect.objectContaining({ analytics: true, marketing: false }),
+        }),
+      ]);
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'unified_tracking_consent',
+        expect.stringContaining('"marketing":false'),
+      );
+    });
+  });
+
+  describe('data subject requests', () => {
+    const stored = new Map<string, string>();
+
+    beforeEach(async () => {
+      stored.clear();
+      vi.mocked(localStorage.getItem).mockImplementation((key: string) => stored.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => stored.set(key, value));
+      vi.mocked(localStorage.removeItem).mockImplementation((key: string) => stored.delete(key));
+      await core.initialize({ ...config, settings: { ...config.settings, consentPolicyVersion: '1' } });
+      await core.identify('user-1');
+      core.register({ plan: 'pro' });
+      core.time('checkout');
+      await core.setConsent({ marketing: false });
+    });
+
+    afterEach(() => {
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.setItem).mockReset();
+      vi.mocked(localStorage.removeItem).mockReset();
+    });
+
+    it('should export everything stored about the user', async () => {
+      const data = await core.exportLocalData();
+
+      expect(data).toEqual(
+        expect.objectContaining({
+          anonymousId: core.getAnonymousId(),
+          userId: 'user-1',
+          superProperties: { plan: 'pro' },
+          timedEvents: { checkout: expect.any(Number) },
+          consent: expect.objectContaining({ consent: expect.objectContaining({ marketing: false }) }),
+          consentAuditLog: [expect.objectContaining({ changes: { marketing: false } })],
+        }),
+      );
+    });
+
+    it('should clear local state and run provider opt-out hooks', async () => {
+      const anonymousId = core.getAnonymousId();
+
+      await core.forgetUser();
+
+      const data = await core.exportLocalData();
+      expect(providerManager.forgetUser).toHaveBeenCalled();
+      expect(data.anonymousId).not.toBe(anonymousId);
+      expect(providerManager.setAnonymousId).toHaveBeenLastCalledWith(data.anonymousId);
+      expect(data).toEqual(
+        expect.objectContaining({
+          userId: null,
+          superProperties: {},
+          timedEvents: {},
+          consent: null,
+          consentAuditLog: [],
+          queuedEvents: [],
+        }),
+      );
+      expect(stored.has('unified_tracking_consent_log')).toBe(false);
+      expect(ConfigManager.getInstance().getConsent().marketing).toBe(true);
+    });
+
+    it('should push the reset consent to providers after forgetting the user', async () => {
+      await core.initialize({ ...config, settings: { ...config.settings, consentRequired: true } });
+      await core.setConsent({ analytics: true });
+
+      await core.forgetUser();
+
+      expect(ConfigManager.getInstance().getConsent()).toEqual({});
+      expect(providerManager.handleConsentChange).toHaveBeenLastCalledWith({});
+      expect(providerManager.handleConsentChange.mock.invocationCallOrder.at(-1)).toBeLessThan(
+        providerManager.setAnonymousId.mock.invocationCallOrder.at(-1),
+      );
+    });
+  });
+
+  describe('screen tracking', () => {
+    afterEach(() => {
+      core['screenTracker'].stop();
+      (window.location as any).href = 'http://localhost:3000';
+    });
+
+    it('should log a screen view for the current page and every navigation', async () => {
+      (window.location as any).href = 'http://localhost:3000/home';
+      await core.initialize({ ...config, settings: { ...config.settings, autoTrackScreens: true } });
+
+      (window.location as any).href = 'http://localhost:3000/orders/42';
+      history.pushState(null, '', '/orders/42');
+
+      await vi.waitFor(() =>
+        expect(providerManager.logScreenView).toHaveBeenLastCalledWith(
+          '/orders/:id',
+          expect.objectContaining({ path: '/orders/42', previous_screen: '/home' }),
+        ),
+      );
+      expect(providerManager.logScreenView).toHaveBeenCalledWith('/home', expect.objectContaining({ path: '/home' }));
+    });
+  });
+
+  describe('error capture', () => {
+    it('should log uncaught errors until shut down', async () => {
+      await core.initialize({ ...config, settings: { ...config.settings, autoTrackErrors: true } });
+      const error = new Error('uncaught');
+
+      window.dispatchEvent(new ErrorEvent('error', { error, message: error.message }));
+      await vi.waitFor(() =>
+        expect(providerManager.logError).toHaveBeenCalledWith(
+          error,
+          expect.objectContaining({ tags: { mechanism: 'onerror', handled: 'false' } }),
+        ),
+      );
+
+      await core.shutdown();
+      // Handled here so jsdom does not report it as uncaught once no capture is listening
+      const handle = (event: ErrorEvent) => event.preventDefault();
+      window.addEventListener('error', handle);
+      window.dispatchEvent(new ErrorEvent('error', { error: new Error('after shutdown'), message: 'after shutdown' }));
+      window.removeEventListener('error', handle);
+
+      expect(providerManager.shutdown).toHaveBeenCalled();
+      expect(providerManager.logError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('breadcrumbs', () => {
+    afterEach(async () => {
+      await core.shutdown();
+    });
+
+    it('should attach recorded breadcrumbs to logged errors', async () => {
+      await core.initialize({
+        ...config,
+        settings: { ...config.settings, breadcrumbs: { categories: { network: false, navigation: false } } },
+      });
+
+      console.warn('cart is empty');
+      core.addBreadcrumb('Checkout started', 'checkout');
+      await core.logError('boom', { breadcrumbs: [{ message: 'manual' }] });
+
+      expect(providerManager.logError).toHaveBeenCalledWith(expect.any(Error), {
+        breadcrumbs: [
+          expect.objectContaining({ message: 'cart is empty', category: 'console', data: { level: 'warn' } }),
+          expect.objectContaining({ message: 'Checkout started', category: 'checkout' }),
+          { message: 'manual' },
+        ],
+      });
+    });
+  });
+
+  describe('symbolication', () => {
+    it('should map logged error frames through registered source maps', async () => {
+      await core.initialize(config);
+      core.registerSourceMap('assets/main.min.js', {
+        version: 3,
+        sources: ['src/app.ts'],
+        names: ['handleClick'],
+        mappings: 'AASEA',
+      });
+      const error = new Error('boom');
+      error.stack = 'Error: boom\n    at a (https://app.example.com/assets/main.min.js:1:5)';
+
+      await core.logError(error);
+
+      expect(providerManager.logError).toHaveBeenCalledWith(error, {
+        frames: [{ file: 'src/app.ts', line: 10, column: 3, function: 'handleClick', inApp: true }],
+      });
+    });
+  });
+});
@@ -6,11 +6,40 @@ import type {
   RevenueData,
   ConsentSettings,
   ActiveProvidersResult,
+  ListenerEventName,
+  PreInitBufferSettings,
+  Middleware,
+  TrackingPayload,
+  TrackingPlan,
+  ValidationMode,
+  ValidationErrorEvent,
+  ConsentAuditEntry,
+  ConsentRenewalEvent,
+  LocalDataExport,
+  SourceMap,
 } from '../definitions';
 import { ProviderManager } from '../providers/provider-manager';
 import { ConfigManager } from '../utils/config-manager';
+import { ConsentStore } from '../utils/consent-store';
 import { EventQueue } from '../utils/event-queue';
+import { TabCoordinator } from '../utils/tab-coordinator';
+import { EventTimer } from '../utils/event-timer';
+import { IdentityManager } from '../utils/identity-manager';
 import { Logger } from '../utils/logger';
+import { SessionManager } from '../utils/session-manager';
+import { parseStack } from '../utils/stack-parser';
+import { SuperProperties } from '../utils/super-properties';
+import type { SessionEventType, SessionInfo } from '../utils/session-manager';
+import { BreadcrumbRecorder, getProviderHosts } from './breadcrumb-recorder';
+import { ConsentBridge } from './consent-bridge';
+import { ErrorCapture } from './error-capture';
+import { MiddlewarePipeline } from './middleware-pipeline';
+import { PreInitBuffer } from './pre-init-buffer';
+import { PrivacyFilter } from './privacy-filter';
+import { ScreenTracker } from './screen-tracker';
+import { Symbolicator } from './symbolicator';
+import { TrackingPlanValidator } from './tracking-plan-validator';
+import type { BufferedCall } from './pre-init-buffer';
 
 export interface TrackingEvent {
   type: 'trackingEvent';
@@ -37,7 +66,9 @@ export type EventData =
   | {
       error: Error;
       context?: ErrorContext;
-    };
+    }
+  | ValidationErrorEvent
+  | ConsentRenewalEvent;
 
 export interface EventListener {
   (event: EventData): void;
@@ -52,7 +83,31 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
   private configManager: ConfigManager;
   private eventQueue: EventQueue;
   private logger: Logger;
+  private preInitBuffer: PreInitBuffer;
+  private middleware: MiddlewarePipeline;
+  private validator: TrackingPlanValidator;
+  private privacyFilter: PrivacyFilter;
+  private sessionManager: SessionManager;
+  private identityManager: IdentityManager;
+  private superProperties: SuperProperties;
+  private eventTimer: EventTimer;
+  private consentStore: ConsentStore;
+  private consentBridge: ConsentBridge;
+  private screenTracker: ScreenTracker;
+  private errorCapture: ErrorCapture;
+  private breadcrumbs: BreadcrumbRecorder;
+  private symbolicator: Symbolicator;
+  private consentPolicyVersion?: string;
+  private consentRenewalRequired = false;
+  // Consent set before initialize() loaded the stored consent and learned the policy version
+  private pendingConsent?: ConsentSettings;
+  private consentRestored = false;
+  private sessionEnabled = false;
+  private trackSessionEvents = true;
+  private removeSessionListener?: () => void;
+  private removeIdentitySync?: () => void;
   private initialized = false;
+  private replaying = false;
   private listeners: Map<string, Set<EventListener>> = new Map();
 
   constructor() {
@@ -60,6 +115,64 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
     this.configManager = ConfigManager.getInstance();
     this.eventQueue = EventQueue.getInstance();
     this.providerManager = new ProviderManager();
+    this.preInitBuffer = new PreInitBuffer();
+    this.middleware = new MiddlewarePipeline();
+    this.providerManager.setMiddleware(this.middleware);
+    this.validator = new TrackingPlanValidator();
+    this.privacyFilter = new PrivacyFilter();
+    this.sessionManager = SessionManager.getInstance();
+    this.identityManager = IdentityManager.getInstance();
+    this.superProperties = SuperProperties.getInstance();
+    this.eventTimer = EventTimer.getInstance();
+    this.consentStore = ConsentStore.getInstance();
+    this.consentBridge = new ConsentBridge((consent) => {
+      this.setConsent(consent).catch((error) => {
+        this.logger.error('Failed to apply consent from CMP signals', error);
+      });
+    });
+    this.screenTracker = new ScreenTracker((screenName, properties) => {
+      this.logScreenView(screenName, properties).catch((error) => {
+        this.logger.error('Failed to track screen view', error);
+      });
+    });
+    this.breadcrumbs = new BreadcrumbRecorder();
+    this.symbolicator = new Symbolicator();
+    this.errorCapture = new ErrorCapture((error, context) => {
+      this.logError(error, context).catch((logError) => {
+        this.logger.error('Failed to log captured error', logError);
+      });
+    });
+  }
+
+  /**
+   * Configure buffering of calls made before initialize() resolves.
+   * Call this before anything is tracked to change the defaults.
+   */
+  configurePreInitBuffer(settings: PreInitBufferSettings): void {
+    this.preInitBuffer.configure(settings);
+  }
+
+  /**
+   * Add middleware that can enrich, rename, sample or drop every payload before fan-out.
+   * Returns a function that removes the middleware.
+   */
+  use(middleware: Middleware): () => void {
+    return this.middleware.use(middleware);
+  }
+
+  /**
+   * Add middleware applied only to payloads delivered to the given provider
+   */
+  useDestination(providerId: string, middleware: Middleware): () => void {
+    return this.middleware.useDestination(providerId, middleware);
+  }
+
+  /**
+   * Register a tracking plan that track() and logScreenView() are validated against.
+   * Pass undefined to remove the current plan.
+   */
+  setTrackingPlan(plan: TrackingPlan | undefined, mode: ValidationMode = 'warn'): void {
+    this.validator.setPlan(plan, mode);
   }
 
   async initialize(options?: UnifiedTrackingConfig): Promise<InitializeResult> {
@@ -74,6 +187,40 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
         this.logger.setDebugMode(true);
       }
 
+      this.privacyFilter.configure(config.settings?.privacy);
+      this.symbolicator.configure(config.settings?.symbolication);
+
+      // Providers must start with the consent the user already gave
+      await this.restoreConsent(config);
+
+      if (config.settings?.consentBridge) {
+        this.consentBridge.start(config.settings.consentBridge);
+      }
+
+      if (config.trackingPlan) {
+        this.validator.setPlan(config.trackingPlan.plan, config.trackingPlan.mode);
+      }
+
+      // Every provider starts from the same anonymous ID
+      this.identityManager.load(config.settings?.userIdGenerator);
+      await this.providerManager.setAnonymousId(this.identityManager.getAnonymousId());
+
+      // A reset in another tab gives this tab's providers the new anonymous ID too
+      this.removeIdentitySync?.();
+      this.removeIdentitySync = this.identityManager.syncAcrossTabs((anonymousId) => {
+        this.providerManager.setAnonymousId(anonymousId).catch((error) => {
+          this.logger.error('Failed to apply anonymous ID from another tab', error);
+        });
+      });
+
+      // Events left undelivered by earlier sessions are loaded before providers start,
+      // by the one tab that owns the shared queue
+      this.eventQueue.configure(config.settings?.batching, config.settings?.retry);
+      if (config.settings?.tabCoordination !== false && TabCoordinator.isSupported()) {
+        await this.eventQueue.enableTabCoordination();
+      }
+      await this.eventQueue.setStorage(config.settings?.queueStorage);
+
       // Initialize providers
       await this.providerManager.initialize(config);
 
@@ -82,6 +229,24 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
 
       this.initialized = true;
 
+      this.startSession(config);
+
+      // Deliver calls captured before initialization, in their original order
+      this.preInitBuffer.configure(config.settings?.preInitBuffer);
+      await this.replayPreInitBuffer();
+
+      if (config.settings?.breadcrumbs?.enabled !== false) {
+        this.breadcrumbs.start(config.settings?.breadcrumbs, getProviderHosts(config));
+      }
+
+      if (config.settings?.autoTrackErrors) {
+        this.errorCapture.install(config.settings.errorCapture);
+      }
+
+      if (config.settings?.autoTrackScreens) {
+        this.screenTracker.start(config.settings.screenTracking);
+      }
+
       const analyticsProviders = this.providerManager.getActiveProviders('analytics');
       const errorProviders = this.providerManager.getActiveProviders('error-tracking');
 
@@ -113,71 +278,213 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
   }
 
   async track(event: string, properties?: Record<string, unknown>): Promise<void> {
-    this.ensureInitialized();
+    // Measured when track() is called, even if the event is buffered
+    const duration = this.eventTimer.stop(event);
 
-    this.logger.debug('Tracking event', { event, properties });
+    await this.process({ type: 'track', eventName: event, properties: { ...properties } }, duration);
+  }
 
-    await this.providerManager.trackEvent(event, properties);
+  /**
+   * Start timing an event; the next track() call for it includes duration_ms
+   */
+  async time(eventName: string): Promise<void> {
+    this.eventTimer.start(eventName);
+  }
 
-    this.notifyListeners('trackingEvent', { event, properties });
+  /**
+   * Discard a timer started with time()
+   */
+  async cancelTimedEvent(eventName: string): Promise<void> {
+    this.eventTimer.cancel(eventName);
   }
 
   async identify(userId: string, traits?: Record<string, unknown>): Promise<void> {
-    this.ensureInitialized();
-
-    this.logger.debug('Identifying user', { userId, traits });
-
-    await this.providerManager.identifyUser(userId, traits);
+    await this.process({ type: 'identify', userId, traits: traits && { ...traits } });
   }
 
   async setUserProperties(properties: Record<string, unknown>): Promise<void> {
-    this.ensureInitialized();
-
-    this.logger.debug('Setting user properties', properties);
-
-    await this.providerManager.setUserProperties(properties);
+    await this.process({ type: 'userProperties', properties: { ...properties } });
   }
 
   async logError(error: Error | string, context?: ErrorContext): Promise<void> {
-    this.ensureInitialized();
-
     const errorObj = typeof error === 'string' ? new Error(error) : error;
 
-    this.logger.error('Logging error', errorObj, context);
+    await this.process({
+      type: 'error',
+      error: errorObj,
+      context: await this.symbolicate(errorObj, this.withBreadcrumbs(context)),
+    });
+  }
 
-    await this.providerManager.logError(errorObj, context);
+  /**
+   * Register the source map of a generated file for symbolicating logged errors
+   */
+  registerSourceMap(file: string, map: SourceMap | string): void {
+    this.symbolicator.register(file, map);
+  }
 
-    this.notifyListeners('error', { error: errorObj, context });
+  /**
+   * Add a breadcrumb to the shared buffer attached to every logged error
+   */
+  addBreadcrumb(message: string, category?: string, data?: Record<string, unknown>): void {
+    this.breadcrumbs.add({ message, category, data });
   }
 
   async logRevenue(revenue: RevenueData): Promise<void> {
-    this.ensureInitialized();
-
-    this.logger.debug('Logging revenue', revenue);
-
-    await this.providerManager.logRevenue(revenue);
+    await this.process({ type: 'revenue', revenue: { ...revenue } });
   }
 
   async logScreenView(screenName: string, properties?: Record<string, unknown>): Promise<void> {
-    this.ensureInitialized();
-
-    this.logger.debug('Logging screen view', { screenName, properties });
-
-    await this.providerManager.logScreenView(screenName, properties);
+    await this.process({ type: 'screenView', screenName, properties: { ...properties } });
   }
 
   async setConsent(consent: ConsentSettings): Promise<void> {
     this.logger.debug('Setting consent', consent);
 
     this.configManager.setConsent(consent);
+    if (this.consentRestored) {
+      await this.persistConsent(consent);
+    } else {
+      // Stored once initialize() knows which policy version it was given for
+      this.pendingConsent = { ...this.pendingConsent, ...consent };
+    }
     await this.providerManager.handleConsentChange(consent);
   }
 
+  /**
+   * True when stored consent was given for a different policy version and must be collected again
+   */
+  isConsentRenewalRequired(): boolean {
+    return this.consentRenewalRequired;
+  }
+
+  /**
+   * Every consent change recorded on this device, oldest first, e.g. for GDPR/CCPA requests
+   */
+  async getConsentAuditLog(): Promise<ConsentAuditEntry[]> {
+    return this.consentStore.getAuditLog();
+  }
+
+  /**
+   * Erase everything stored locally about the user and run each provider's opt-out/delete
+   * hook, e.g. for a GDPR right-to-erasure request. The user starts over with a new anonymous ID.
+   */
+  async forgetUser(): Promise<void> {
+    this.logger.debug('Forgetting user');
+
+    // Cleared silently; a session_end event would be about the forgotten user
+    this.sessionManager.clear();
+    this.preInitBuffer.clear();
+
+    // Deliveries already under way finish before the providers forget the user
+    await this.eventQueue.whenDeliveriesSettled();
+    await this.providerManager.forgetUser();
+
+    // Providers follow the reset consent: back in with the defaults, disabled while consent is required
+    await this.consentStore.clear();
+    this.pendingConsent = undefined;
+    this.configManager.resetConsent();
+    this.consentRenewalRequired = false;
+    await this.providerManager.handleConsentChange(this.configManager.getConsent());
+
+    await this.providerManager.setAnonymousId(this.identityManager.reset());
+    this.superProperties.clear();
+    this.eventTimer.clear();
+    this.breadcrumbs.clear();
+  }
+
+  /**
+   * Everything the library stores locally about the user, e.g. for a GDPR access request
+   */
+  async exportLocalData(): Promise<LocalDataExport> {
+    return {
+      exportedAt: new Date().toISOString(),
+      anonymousId: this.identityManager.getAnonymousId(),
+      userId: this.identityManager.getUserId(),
+      session: this.sessionManager.getSession(),
+      superProperties: this.superProperties.getAll(),
+      timedEvents: this.eventTimer.getAll(),
+      consent: await this.consentStore.load(),
+      consentAuditLog: await this.consentStore.getAuditLog(),
+      queuedEvents: this.eventQueue.getEvents().map(({ id, timestamp, type, data }) => ({ id, timestamp, type, data })),
+    };
+  }
+
+  /**
+   * Register super properties added to every event and error from now on.
+   * Properties passed to an individual call take precedence.
+   */
+  async register(properties: Record<string, unknown>): Promise<void> {
+    this.superProperties.register(properties);
+  }
+
+  /**
+   * Register super properties only if they are not already set
+   */
+  async registerOnce(properties: Record<string, unknown>): Promise<void> {
+    this.superProperties.registerOnce(properties);
+  }
+
+  async unregister(propertyName: string): Promise<void> {
+    this.superProperties.unregister(propertyName);
+  }
+
+  getSuperProperties(): Record<string, unknown> {
+    return this.superProperties.getAll();
+  }
+
+  /**
+   * Get the anonymous ID shared by all providers
+   */
+  getAnonymousId(): string {
+    return this.identityManager.getAnonymousId();
+  }
+
+  /**
+   * Get the current session ID, or null when session management is disabled
+   */
+  getSessionId(): string | null {
+    return this.sessionEnabled ? this.sessionManager.getSessionId() : null;
+  }
+
   async reset(): Promise<void> {
     this.logger.debug('Resetting Unified Tracking');
 
+    // A reset usually means a different user, so the next activity starts a new session
+    if (this.sessionEnabled) {
+      this.sessionManager.endSession();
+    }
+
     await this.providerManager.reset();
+    await this.providerManager.setAnonymousId(this.identityManager.reset());
+    this.superProperties.clear();
+    this.eventTimer.clear();
     this.eventQueue.clear();
+    this.preInitBuffer.clear();
+    this.breadcrumbs.clear();
+  }
+
+  /**
+   * Remove global handlers, stop background work and shut down all providers.
+   * Call initialize() again to start over.
+   */
+  async shutdown(): Promise<void> {
+    this.logger.debug('Shutting down Unified Tracking');
+
+    this.errorCapture.uninstall();
+    this.breadcrumbs.stop();
+    this.screenTracker.stop();
+    this.consentBridge.stop();
+    this.removeSessionListener?.();
+    this.removeSessionListener = undefined;
+    this.removeIdentitySync?.();
+    this.removeIdentitySync = undefined;
+    this.sessionManager.stop();
+    this.eventQueue.stop();
+    this.eventQueue.disableTabCoordination();
+
+    await this.providerManager.shutdown();
+    this.initialized = false;
   }
 
   async getActiveProviders(): Promise<ActiveProvidersResult> {
@@ -205,10 +512,7 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
     this.providerManager.setDebugMode(enabled);
   }
 
-  async addListener(
-    eventName: 'trackingEvent' | 'error' | 'providerStatusChange',
-    listenerFunc: EventListener,
-  ): Promise<ListenerHandle> {
+  async addListener(eventName: ListenerEventName, listenerFunc: EventListener): Promise<ListenerHandle> {
     if (!this.listeners.has(eventName)) {
       this.listeners.set(eventName, new Set());
     }
@@ -236,8 +540,365 @@ export class UnifiedTrackingCore implements UnifiedTrackingPlugin {
     }
   }
 
+  private async restoreConsent(config: UnifiedTrackingConfig): Promise<void> {
+    this.consentPolicyVersion = config.settings?.consentPolicyVersion;
+    this.consentRestored = true;
+    const pending = this.pendingConsent;
+    this.pendingConsent = undefined;
+
+    const stored = await this.consentStore.load();
+
+    if (stored && this.consentPolicyVersion && stored.policyVersion !== this.consentPolicyVersion) {
+      // Consent given for another version of the policy no longer applies, unless the user has just given it again
+      if (!pending) {
+        this.consentRenewalRequired = true;
+
+        const event: ConsentRenewalEvent = {
+          type: 'consentRenewalRequired',
+          policyVersion: this.consentPolicyVersion,
+          previousPolicyVersion: stored.policyVersion,
+        };
+        this.logger.info('Consent policy version changed, consent must be collected again', event);
+        this.notifyListeners('consentRenewalRequired', event);
+      }
+    } else if (stored) {
+      this.configManager.setConsent({ ...stored.consent, ...pending });
+    }
+
+    // Consent set before initialization was given for the configured policy version
+    if (pending) {
+      await this.persistConsent(pending);
+    }
+  }
+
+  /**
+   * Copy of the error context with the recorded breadcrumbs in front of the caller's own
+   */
+  private withBreadcrumbs(context?: ErrorContext): ErrorContext | undefined {
+    const recorded = this.breadcrumbs.getBreadcrumbs();
+    if (!recorded.length) {
+      return context && { ...context };
+    }
+
+    return { ...context, breadcrumbs: [...recorded, ...(context?.breadcrumbs || [])] };
+  }
+
+  /**
+   * Replace minified frames with original positions when source maps are configured
+   */
+  private async symbolicate(error: Error, context?: ErrorContext): Promise<ErrorContext | undefined> {
+    if (!this.symbolicator.isEnabled()) {
+      return context;
+    }
+
+    const frames = context?.frames || parseStack(error.stack);
+    if (!frames.length) {
+      return context;
+    }
+
+    try {
+      return { ...context, frames: await this.symbolicator.symbolicate(frames) };
+    } catch (symbolicationError) {
+      this.logger.warn('Failed to symbolicate error', symbolicationError);
+      return context;
+    }
+  }
+
+  private async persistConsent(changes: ConsentSettings): Promise<void> {
+    const consent = { ...this.configManager.getConsent() };
+    const timestamp = new Date().toISOString();
+
+    await this.consentStore.save({ consent, policyVersion: this.consentPolicyVersion, updatedAt: timestamp });
+    await this.consentStore.append({
+      timestamp,
+      policyVersion: this.consentPolicyVersion,
+      changes: { ...changes },
+      consent,
+    });
+
+    this.consentRenewalRequired = false;
+  }
+
+  /**
+   * Run a payload through the middleware chain and fan it out to providers
+   */
+  private async process(payload: TrackingPayload, durationMs?: number): Promise<void> {
+    if (this.bufferCall(payload, durationMs)) return;
+
+    await this.deliver(this.applyDuration(this.validate(payload), durationMs));
+  }
+
+  private async deliver(payload: TrackingPayload, timestamp?: number): Promise<void> {
+    const result = await this.middleware.run(this.applySession(this.applySuperProperties(payload)));
+    if (!result) {
+      this.logger.debug('Payload dropped by middleware', payload);
+      return;
+    }
+
+    // Runs last so nothing added by enrichment or middleware escapes the filter
+    await this.dispatch(this.privacyFilter.apply(result), timestamp);
+  }
+
+  /**
+   * Check track and screen view payloads against the tracking plan.
+   * Throws in strict mode; otherwise reports violations and returns the payload to send.
+   */
+  private validate(payload: TrackingPayload): TrackingPayload {
+    if (!this.validator.hasPlan() || (payload.type !== 'track' && payload.type !== 'screenView')) {
+      return payload;
+    }
+
+    const name = payload.type === 'track' ? payload.eventName : payload.screenName;
+    const result =
+      payload.type === 'track'
+        ? this.validator.validateEvent(name, payload.properties)
+        : this.validator.validateScreen(name, payload.properties);
+
+    if (result.valid) {
+      return payload;
+    }
+
+    const mode = this.validator.getMode();
+    const violation: ValidationErrorEvent = {
+      type: 'validationError',
+      kind: payload.type,
+      name,
+      properties: payload.properties || {},
+      issues: result.issues,
+      mode,
+    };
+
+    this.logger.warn(`Tracking plan violation for "${name}"`, result.issues);
+    this.notifyListeners('validationError', violation);
+
+    if (mode === 'strict') {
+      const details = result.issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+      throw new Error(`Tracking plan violation for "${name}": ${details.join('; ')}`);
+    }
+
+    if (mode === 'drop-invalid-properties') {
+      return { ...payload, properties: result.sanitized };
+    }
+
+    return payload;
+  }
+
+  private async dispatch(payload: TrackingPayload, timestamp?: number): Promise<void> {
+    // Only replayed calls carry a timestamp; live calls are queued at the current time
+    const at: [] | [number] = timestamp === undefined ? [] : [timestamp];
+
+    switch (payload.type) {
+      case 'track':
+        this.logger.debug('Tracking event', { event: payload.eventName, properties: payload.properties });
+        await this.providerManager.trackEvent(payload.eventName, payload.properties, ...at);
+        this.notifyListeners('trackingEvent', { event: payload.eventName, properties: payload.properties });
+        break;
+      case 'identify':
+        this.logger.debug('Identifying user', { userId: payload.userId, traits: payload.traits });
+        await this.providerManager.identifyUser(
+          payload.userId,
+          payload.traits,
+          this.identityManager.identify(payload.userId),
+          ...at,
+        );
+        break;
+      case 'userProperties':
+        this.logger.debug('Setting user properties', payload.properties);
+        await this.providerManager.setUserProperties(payload.properties, ...at);
+        break;
+      case 'error':
+        this.logger.error('Logging error', payload.error, payload.context);
+        await this.providerManager.logError(payload.error, payload.context, ...at);
+        this.notifyListeners('error', { error: payload.error, context: payload.context });
+        break;
+      case 'revenue':
+        this.logger.debug('Logging revenue', payload.revenue);
+        await this.providerManager.logRevenue(payload.revenue, ...at);
+        break;
+      case 'screenView':
+        this.logger.debug('Logging screen view', { screenName: payload.screenName, properties: payload.properties });
+        await this.providerManager.logScreenView(payload.screenName, payload.properties, ...at);
+        break;
+    }
+  }
+
+  private startSession(config: UnifiedTrackingConfig): void {
+    const settings = config.settings?.session;
+
+    this.sessionEnabled = settings?.enabled !== false;
+    this.trackSessionEvents = settings?.trackSessionEvents !== false;
+
+    this.removeSessionListener?.();
+    this.removeSessionListener = undefined;
+
+    if (!this.sessionEnabled) {
+      this.sessionManager.stop();
+      return;
+    }
+
+    this.removeSessionListener = this.sessionManager.addListener((type, session) =>
+      this.handleSessionEvent(type, session),
+    );
+    this.sessionManager.configure({ timeout: config.settings?.sessionTimeout });
+    this.sessionManager.start();
+  }
+
+  private handleSessionEvent(type: SessionEventType, session: SessionInfo): void {
+    if (!this.trackSessionEvents) return;
+
+    const properties: Record<string, unknown> = { session_id: session.id };
+    if (type === 'session_end') {
+      properties.duration_ms = session.lastActivityAt - session.startedAt;
+    }
+
+    this.process({ type: 'track', eventName: type, properties }).catch((error) => {
+      this.logger.error(`Failed to track ${type}`, error);
+    });
+  }
+
+  /**
+   * Add super properties to events, and to errors as tags (primitive values) or extra
+   */
+  private applySuperProperties(payload: TrackingPayload): TrackingPayload {
+    if (!this.superProperties.hasProperties() || payload.type === 'identify' || payload.type === 'userProperties') {
+      return payload;
+    }
+
+    const properties = this.superProperties.getAll();
+
+    switch (payload.type) {
+      case 'track':
+      case 'screenView':
+        return { ...payload, properties: { ...properties, ...payload.properties } };
+      case 'revenue':
+        return {
+          ...payload,
+          revenue: { ...payload.revenue, properties: { ...properties, ...payload.revenue.properties } },
+        };
+      case 'error': {
+        const tags: Record<string, string> = {};
+        const extra: Record<string, any> = {};
+
+        for (const [key, value] of Object.entries(properties)) {
+          if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+            tags[key] = String(value);
+          } else {
+            extra[key] = value;
+          }
+        }
+
+        return {
+          ...payload,
+          context: {
+            ...payload.context,
+            tags: { ...tags, ...payload.context?.tags },
+            ...(Object.keys(extra).length > 0 && { extra: { ...extra, ...payload.context?.extra } }),
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * Add the time measured by time() to a track payload. Like session and super properties it is
+   * added after validation, so the tracking plan does not need to declare it.
+   */
+  private applyDuration(payload: TrackingPayload, durationMs?: number): TrackingPayload {
+    if (durationMs === undefined || payload.type !== 'track') {
+      return payload;
+    }
+
+    return { ...payload, properties: { duration_ms: durationMs, ...payload.properties } };
+  }
+
+  /**
+   * Record activity on the session and stamp its ID on events sent to providers.
+   * Events that already carry a session_id (e.g. session_end) are left untouched.
+   */
+  private applySession(payload: TrackingPayload): TrackingPayload {
+    if (!this.sessionEnabled || payload.type === 'identify' || payload.type === 'userProperties') {
+      return payload;
+    }
+
+    if ((payload.type === 'track' || payload.type === 'screenView') && payload.properties?.session_id !== undefined) {
+      return payload;
+    }
+
+    const sessionId = this.sessionManager.touch().id;
+
+    switch (payload.type) {
+      case 'track':
+      case 'screenView':
+        return { ...payload, properties: { session_id: sessionId, ...payload.properties } };
+      case 'revenue':
+        return {
+          ...payload,
+          revenue: { ...payload.revenue, properties: { session_id: sessionId, ...payload.revenue.properties } },
+        };
+      case 'error':
+        return {
+          ...payload,
+          context: { ...payload.context, tags: { session_id: sessionId, ...payload.context?.tags } },
+        };
+    }
+  }
+
+  /**
+   * Capture a call made before initialization (or while the buffer is replaying).
+   * Returns false when the call should run immediately.
+   */
+  private bufferCall(payload: TrackingPayload, durationMs?: number): boolean {
+    if (this.initialized && !this.replaying) {
+      return false;
+    }
+
+    this.ensureInitialized();
+
+    if (!this.preInitBuffer.add(payload, durationMs)) {
+      this.logger.warn(`Pre-init buffer full, dropped ${payload.type} call`);
+    }
+
+    return true;
+  }
+
+  private async replayPreInitBuffer(): Promise<void> {
+    if (this.preInitBuffer.size() === 0) {
+      return;
+    }
+
+    this.logger.debug(`Replaying ${this.preInitBuffer.size()} buffered calls`);
+    this.replaying = true;
+
+    try {
+      // Calls made while replaying are appended and drained by the same loop
+      let call = this.preInitBuffer.shift();
+      while (call) {
+        try {
+          await this.replayCall(call);
+        } catch (error) {
+          this.logger.error(`Failed to replay buffered ${call.payload.type} call`, error);
+        }
+        call = this.preInitBuffer.shift();
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    const dropped = this.preInitBuffer.getDroppedCount();
+    if (dropped > 0) {
+      this.logger.warn(`${dropped} calls were dropped before initialization completed`);
+    }
+  }
+
+  private async replayCall(call: BufferedCall): Promise<void> {
+    const payload = this.applyDuration(this.validate(call.payload), call.durationMs);
+
+    // Buffered events are queued with the time they were raised, not the time they were replayed
+    await this.deliver(payload, call.timestamp);
+  }
+
   private ensureInitialized(): void {
-    if (!this.initialized) {
+    if (!this.initialized && !this.preInitBuffer.isEnabled()) {
       throw new Error('UnifiedTracking not initialized. Call initialize() first.');
     }
   }
@@ -11,6 +11,16 @@ export interface UnifiedTrackingPlugin {
    */
   track(event: string, properties?: Record<string, any>): Promise<void>;
 
+  /**
+   * Start timing an event; the next track() call for it includes duration_ms
+   */
+  time(eventName: string): Promise<void>;
+
+  /**
+   * Discard a timer started with time()
+   */
+  cancelTimedEvent(eventName: string): Promise<void>;
+
   /**
    * Identify a user
    */
@@ -36,6 +46,21 @@ export interface UnifiedTrackingPlugin {
    */
   logScreenView(screenName: string, properties?: Record<string, any>): Promise<void>;
 
+  /**
+   * Register super properties added to every event and error from now on
+   */
+  register(properties: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Register super properties only if they are not already set
+   */
+  registerOnce(properties: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Remove a super property
+   */
+  unregister(propertyName: string): Promise<void>;
+
   /**
    * Set user consent
    */
@@ -46,6 +71,16 @@ export interface UnifiedTrackingPlugin {
    */
   reset(): Promise<void>;
 
+  /**
+   * Erase everything stored locally about the user and run each provider's opt-out/delete hook
+   */
+  forgetUser(): Promise<void>;
+
+  /**
+   * Everything the library stores locally about the user
+   */
+  exportLocalData(): Promise<LocalDataExport>;
+
   /**
    * Get active providers
    */
@@ -59,12 +94,15 @@ export interface UnifiedTrackingPlugin {
   /**
    * Add event listener
    */
-  addListener(
-    eventName: 'trackingEvent' | 'error' | 'providerStatusChange',
-    listenerFunc: (event: any) => void,
-  ): Promise<PluginListenerHandle>;
+  addListener(eventName: ListenerEventName, listenerFunc: (event: any) => void): Promise<PluginListenerHandle>;
 }
 
+/**
+ * Events that can be observed through addListener
+ */
+export type ListenerEventName =
+  'trackingEvent' | 'error' | 'providerStatusChange' | 'validationError' | 'consentRenewalRequired';
+
 export interface UnifiedTrackingConfig {
   /**
    * Analytics provider configurations
@@ -85,8 +123,52 @@ export interface UnifiedTrackingConfig {
    * Auto-detect providers from installed packages
    */
   autoDetect?: boolean;
+
+  /**
+   * Per-provider event routing rules, keyed by provider name
+   */
+  routing?: RoutingConfig;
+
+  /**
+   * Tracking plan that track() and logScreenView() calls are validated against
+   */
+  trackingPlan?: TrackingPlanSettings;
+}
+
+/**
+ * Event name matcher: exact name, glob pattern (`checkout_*`, `step_?`) or regular expression
+ */
+export type EventMatcher = string | RegExp;
+
+/**
+ * Property matcher: expected value, regular expression for string values, or predicate
+ */
+export type PropertyMatcher = string | number | boolean | null | RegExp | ((value: any) => boolean);
+
+export interface RoutingRule {
+  /**
+   * Only events matching at least one pattern are sent to the provider
+   */
+  include?: EventMatcher[];
+
+  /**
+   * Events matching any pattern are never sent to the provider
+   */
+  exclude?: EventMatcher[];
+
+  /**
+   * All listed properties must match for the event to be sent
+   */
+  properties?: Record<string, PropertyMatcher>;
+
+  /**
+   * Custom predicate evaluated after the other rules
+   */
+  where?: (eventName: string, properties: Record<string, any>) => boolean;
 }
 
+export type RoutingConfig = Record<string, RoutingRule>;
+
 export interface AnalyticsConfig {
   /**
    * List of analytics providers to enable
@@ -125,6 +207,12 @@ export interface ErrorTrackingConfig {
   appcenter?: AppCenterConfig;
 }
 
+/**
+ * Event queue storage. 'auto' uses IndexedDB where available and falls back to localStorage;
+ * 'preferences' and 'filesystem' need the Capacitor Preferences or Filesystem plugin.
+ */
+export type QueueStorageType = 'auto' | 'indexedDB' | 'localStorage' | 'preferences' | 'filesystem' | 'memory';
+
 export interface GlobalSettings {
   /**
    * Enable debug logging
@@ -136,21 +224,62 @@ export interface GlobalSettings {
    */
   defaultConsent?: ConsentSettings;
 
+  /**
+   * Load no provider SDK until every consent category it requires is explicitly granted
+   */
+  consentRequired?: boolean;
+
+  /**
+   * Version of the privacy policy consent is collected for. Stored consent given for
+   * another version is discarded and a consentRenewalRequired event is emitted.
+   */
+  consentPolicyVersion?: string;
+
+  /**
+   * Derive consent from IAB CMP signals (TCF v2, GPP, US Privacy)
+   */
+  consentBridge?: ConsentBridgeSettings;
+
   /**
    * Session timeout in milliseconds
    */
   sessionTimeout?: number;
 
   /**
-   * Enable automatic screen tracking
+   * Session management settings
+   */
+  session?: SessionSettings;
+
+  /**
+   * Enable automatic screen tracking from History API and hash navigation
    */
   autoTrackScreens?: boolean;
 
   /**
-   * Enable automatic error tracking
+   * How automatically tracked screens are named
+   */
+  screenTracking?: ScreenTrackingSettings;
+
+  /**
+   * Capture uncaught errors and unhandled promise rejections
    */
   autoTrackErrors?: boolean;
 
+  /**
+   * Global error capture settings
+   */
+  errorCapture?: ErrorCaptureSettings;
+
+  /**
+   * Automatic breadcrumbs attached to every logged error
+   */
+  breadcrumbs?: BreadcrumbSettings;
+
+  /**
+   * Map minified stack frames back to original sources before errors are sent
+   */
+  symbolication?: SymbolicationSettings;
+
   /**
    * Custom user ID generator
    */
@@ -161,12 +290,38 @@ export interface GlobalSettings {
    */
   batching?: BatchingSettings;
 
+  /**
+   * Where undelivered events are kept between sessions
+   */
+  queueStorage?: QueueStorageType;
+
+  /**
+   * Backoff and circuit breaking for failed deliveries
+   */
+  retry?: RetrySettings;
+
+  /**
+   * Let one tab own the persisted queue while the others hand their events to it.
+   * Needs the Web Locks API and BroadcastChannel; defaults to true.
+   */
+  tabCoordination?: boolean;
+
   /**
    * Privacy settings
    */
   privacy?: PrivacySettings;
+
+  /**
+   * Buffering of calls made before initialize() resolves
+   */
+  preInitBuffer?: PreInitBufferSettings;
 }
 
+/**
+ * Providers that implement sendBatch receive pending events as arrays. Other providers
+ * are batched only when their entry in `providers` enables it, and then receive the
+ * events one by one when the batch flushes.
+ */
 export interface BatchingSettings {
   /**
    * Enable event batching
@@ -182,6 +337,160 @@ export interface BatchingSettings {
    * Batch timeout in milliseconds
    */
   timeout?: number;
+
+  /**
+   * Flush once the pending events serialize to this many bytes
+   */
+  maxBytes?: number;
+
+  /**
+   * Overrides per provider ID
+   */
+  providers?: Record<string, Partial<Omit<BatchingSettings, 'providers'>>>;
+}
+
+export interface RetrySettings {
+  /**
+   * Delivery attempts per event and provider before the event is dropped for it
+   */
+  maxRetries?: number;
+
+  /**
+   * Delay after the first failure in milliseconds, doubled for each further one
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound for the backoff delay in milliseconds
+   */
+  maxDelay?: number;
+
+  /**
+   * Consecutive failures after which the provider is moved to the 'error' state
+   */
+  failureThreshold?: number;
+
+  /**
+   * Time in milliseconds before a provider in the 'error' state is probed again
+   */
+  resetTimeout?: number;
+}
+
+export interface ScreenTrackingSettings {
+  /**
+   * Route patterns such as "/users/:id"; a matching path is reported as its pattern
+   */
+  routes?: string[];
+
+  /**
+   * Replace numeric, UUID and other ID-like path segments with ":id" (default: true)
+   */
+  stripIds?: boolean;
+
+  /**
+   * Track routes in the URL hash ("#/settings") as screens (default: true)
+   */
+  trackHashRoutes?: boolean;
+
+  /**
+   * Name the screen for a URL; return null to skip it. Overrides routes and stripIds.
+   */
+  screenNameMapper?: (url: URL) => string | null;
+}
+
+export interface ErrorCaptureSettings {
+  /**
+   * Capture unhandled promise rejections (default: true)
+   */
+  unhandledRejections?: boolean;
+
+  /**
+   * Identical errors within this many milliseconds are reported once (default: 5000)
+   */
+  dedupeInterval?: number;
+}
+
+export type BreadcrumbCategory = 'console' | 'network' | 'navigation' | 'click';
+
+export interface BreadcrumbSettings {
+  /**
+   * Record breadcrumbs automatically (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Breadcrumbs kept; older ones are dropped (default: 100)
+   */
+  maxBreadcrumbs?: number;
+
+  /**
+   * Turn individual sources off, e.g. { console: false }
+   */
+  categories?: Partial<Record<BreadcrumbCategory, boolean>>;
+
+  /**
+   * Rewrite recorded URLs. By default query strings and fragments are removed.
+   */
+  redactUrl?: (url: string) => string;
+}
+
+/**
+ * Version 3 source map as emitted by bundlers
+ */
+export interface SourceMap {
+  version: number;
+  sources: string[];
+  names?: string[];
+  mappings: string;
+  sourceRoot?: string;
+  file?: string;
+  sourcesContent?: Array<string | null>;
+}
+
+export interface SymbolicationSettings {
+  /**
+   * Source maps keyed by generated file URL or path suffix, e.g. { 'assets/index.js': map }
+   */
+  sourceMaps?: Record<string, SourceMap | string>;
+
+  /**
+   * Local source map files keyed like sourceMaps; read with fs, so Node and tests only
+   */
+  sourceMapPaths?: Record<string, string>;
+
+  /**
+   * Load the source map of a generated file not listed above; return null when there is none
+   */
+  loadSourceMap?: (file: string) => Promise<SourceMap | string | null>;
+}
+
+export interface PreInitBufferSettings {
+  /**
+   * Buffer calls made before initialization instead of throwing
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum number of buffered calls
+   */
+  maxSize?: number;
+
+  /**
+   * Which call to discard once the buffer is full
+   */
+  dropPolicy?: 'drop-oldest' | 'drop-newest';
+}
+
+export interface SessionSettings {
+  /**
+   * Manage sessions in the core and add session_id to every event
+   */
+  enabled?: boolean;
+
+  /**
+   * Track session_start and session_end events
+   */
+  trackSessionEvents?: boolean;
 }
 
 export interface PrivacySettings {
@@ -191,7 +500,8 @@ export interface PrivacySettings {
   anonymizeIp?: boolean;
 
   /**
-   * Excluded event properties
+   * Property paths removed from event properties, traits and error extra before they reach providers.
+   * Nested keys use dots ("user.address"); "*" matches within a key and "**" matches any depth.
    */
   excludedProperties?: string[];
 
@@ -199,8 +509,20 @@ export interface PrivacySettings {
    * Data retention days
    */
   dataRetentionDays?: number;
+
+  /**
+   * Redact PII found in event properties, traits, error messages, breadcrumbs and error extra
+   */
+  redactPii?: boolean;
+
+  /**
+   * PII detectors used when redactPii is enabled (default: all)
+   */
+  piiPatterns?: PiiPatternName[];
 }
 
+export type PiiPatternName = 'email' | 'phone' | 'creditCard' | 'jwt';
+
 export interface ConsentSettings {
   analytics?: boolean;
   errorTracking?: boolean;
@@ -224,14 +546,33 @@ export interface ErrorContext {
     email?: string;
     username?: string;
   };
-  breadcrumbs?: Array<{
-    message: string;
-    category?: string;
-    timestamp?: number;
-    data?: Record<string, any>;
-  }>;
+  breadcrumbs?: Breadcrumb[];
   timestamp?: string;
   platform?: string;
+
+  /**
+   * Parsed stack frames of the error, innermost first
+   */
+  frames?: StackFrame[];
+}
+
+export interface Breadcrumb {
+  message: string;
+  category?: string;
+  timestamp?: number;
+  data?: Record<string, any>;
+}
+
+export interface StackFrame {
+  file?: string;
+  line?: number;
+  column?: number;
+  function?: string;
+
+  /**
+   * False for frames from dependencies, browser extensions and native code
+   */
+  inApp?: boolean;
 }
 
 export interface RevenueData {
@@ -255,6 +596,217 @@ export interface RevenueData {
   properties?: Record<string, any>;
 }
 
+/**
+ * A single facade call as seen by middleware before it is fanned out to providers
+ */
+export type TrackingPayload =
+  | { type: 'track'; eventName: string; properties?: Record<string, any> }
+  | { type: 'identify'; userId: string; traits?: Record<string, any>; previousId?: string }
+  | { type: 'userProperties'; properties: Record<string, any> }
+  | { type: 'revenue'; revenue: RevenueData }
+  | { type: 'screenView'; screenName: string; properties?: Record<string, any> }
+  | { type: 'error'; error: Error; context?: ErrorContext };
+
+/**
+ * A queued payload handed to a provider's sendBatch, with the time it was raised
+ */
+export type BatchedPayload = TrackingPayload & { timestamp: number };
+
+/**
+ * An HTTP request a provider builds for events that must leave before the page is unloaded
+ */
+export interface BeaconRequest {
+  url: string;
+  body: string;
+
+  /**
+   * Defaults to text/plain, which needs no CORS preflight
+   */
+  contentType?: string;
+
+  /**
+   * Custom headers rule out sendBeacon; such requests go out as a keepalive fetch
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Middleware receives each payload and returns it (optionally modified) to continue,
+ * or null to drop it. Returning nothing keeps the payload as mutated in place.
+ */
+export type Middleware = (
+  payload: TrackingPayload,
+) => TrackingPayload | null | void | Promise<TrackingPayload | null | void>;
+
+export type PropertyType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON-Schema-like definition of a single property
+ */
+export interface PropertySchema {
+  type?: PropertyType | PropertyType[];
+  description?: string;
+  enum?: any[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: PropertySchema;
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface EventSchema {
+  description?: string;
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+
+  /**
+   * Allow properties that are not listed (default: true)
+   */
+  additionalProperties?: boolean;
+}
+
+export interface TrackingPlan {
+  /**
+   * Planned events keyed by event name
+   */
+  events: Record<string, EventSchema>;
+
+  /**
+   * Planned screens keyed by screen name; screen views are not validated when omitted
+   */
+  screens?: Record<string, EventSchema>;
+
+  /**
+   * Accept events that are not listed in the plan (default: false)
+   */
+  allowUnplannedEvents?: boolean;
+}
+
+/**
+ * warn: report violations and send as-is, strict: reject the call,
+ * drop-invalid-properties: report violations and send without the offending properties
+ */
+export type ValidationMode = 'warn' | 'strict' | 'drop-invalid-properties';
+
+export interface TrackingPlanSettings {
+  plan: TrackingPlan;
+  mode?: ValidationMode;
+}
+
+export interface ValidationIssue {
+  /**
+   * Path to the offending value, e.g. `items[0].price`; empty for event-level issues
+   */
+  path: string;
+  message: string;
+}
+
+export interface ValidationErrorEvent {
+  type: 'validationError';
+  kind: 'track' | 'screenView';
+  name: string;
+  properties: Record<string, any>;
+  issues: ValidationIssue[];
+  mode: ValidationMode;
+}
+
+/**
+ * Consent as persisted between sessions
+ */
+export interface ConsentRecord {
+  consent: ConsentSettings;
+  policyVersion?: string;
+  updatedAt: string;
+}
+
+/**
+ * Entry of the append-only consent audit log
+ */
+export interface ConsentAuditEntry {
+  timestamp: string;
+  policyVersion?: string;
+
+  /**
+   * Categories changed by this update
+   */
+  changes: ConsentSettings;
+
+  /**
+   * Full consent state after the update
+   */
+  consent: ConsentSettings;
+}
+
+/**
+ * Everything the library stores on the device about the current user
+ */
+export interface LocalDataExport {
+  exportedAt: string;
+  anonymousId: string;
+  userId: string | null;
+  session: { id: string; startedAt: number; lastActivityAt: number } | null;
+  superProperties: Record<string, any>;
+
+  /**
+   * Start times of running timed events, keyed by event name
+   */
+  timedEvents: Record<string, number>;
+  consent: ConsentRecord | null;
+  consentAuditLog: ConsentAuditEntry[];
+
+  /**
+   * Events not yet delivered to every provider
+   */
+  queuedEvents: Array<{ id: string; timestamp: number; type: string; data: any }>;
+}
+
+/**
+ * IAB TCF v2 __tcfapi function, or a local stub implementing it
+ */
+export type TcfApi = (
+  command: string,
+  version: number,
+  callback: (data: any, success: boolean) => void,
+  parameter?: unknown,
+) => void;
+
+export interface ConsentBridgeSettings {
+  /**
+   * Read TCF v2 consent from __tcfapi (default: true)
+   */
+  tcf?: boolean;
+
+  /**
+   * Read opt-outs from the IAB GPP API, __gpp (default: true)
+   */
+  gpp?: boolean;
+
+  /**
+   * Read the IAB US Privacy string from __uspapi (default: true)
+   */
+  usPrivacy?: boolean;
+
+  /**
+   * TCF purposes that must all be consented to grant each category
+   */
+  tcfPurposes?: Partial<Record<'analytics' | 'marketing' | 'personalization', number[]>>;
+
+  /**
+   * TCF API to use instead of window.__tcfapi
+   */
+  tcfApi?: TcfApi;
+}
+
+export interface ConsentRenewalEvent {
+  type: 'consentRenewalRequired';
+  policyVersion?: string;
+  previousPolicyVersion?: string;
+}
+
 export interface ActiveProvidersResult {
   analytics: ProviderStatus[];
   errorTracking: ProviderStatus[];
@@ -269,25 +821,10 @@ export interface ProviderStatus {
 
 // Provider Types
 export type AnalyticsProvider =
-  | 'google'
-  | 'firebase'
-  | 'amplitude'
-  | 'mixpanel'
-  | 'segment'
-  | 'posthog'
-  | 'heap'
-  | 'matomo'
-  | 'sentry';
+  'google' | 'firebase' | 'amplitude' | 'mixpanel' | 'segment' | 'posthog' | 'heap' | 'matomo' | 'sentry';
 
 export type ErrorProvider =
-  | 'sentry'
-  | 'crashlytics'
-  | 'datadog'
-  | 'bugsnag'
-  | 'rollbar'
-  | 'logrocket'
-  | 'raygun'
-  | 'appcenter';
+  'sentry' | 'crashlytics' | 'datadog' | 'bugsnag' | 'rollbar' | 'logrocket' | 'raygun' | 'appcenter';
 
 // Provider Configurations
 export interface GoogleAnalyticsConfig {
@@ -15,6 +15,14 @@ export * from './definitions';
 // Export utilities for advanced usage
 export { Logger } from './utils/logger';
 export { EventQueue } from './utils/event-queue';
+export {
+  MemoryQueueStorage,
+  LocalStorageQueueStorage,
+  IndexedDbQueueStorage,
+  PreferencesQueueStorage,
+  FilesystemQueueStorage,
+} from './utils/queue-storage';
+export type { QueueStorage } from './utils/queue-storage';
 export { ConfigManager } from './utils/config-manager';
 
 // Export base classes for extensibility
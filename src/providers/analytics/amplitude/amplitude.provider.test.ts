@@ -142,6 +142,21 @@ describe('AmplitudeAnalyticsProvider', () => {
       expect(mockAmplitude.track).toHaveBeenCalledWith('Button Clicked', { button: 'submit', page: 'home' });
     });
 
+    it('should send batched events with their original time and flush once', async () => {
+      const flush = vi.fn(() => ({ promise: Promise.resolve() }));
+      (mockAmplitude as any).flush = flush;
+
+      await provider.sendBatch([
+        { type: 'track', eventName: 'first', properties: { step: 1 }, timestamp: 1000 },
+        { type: 'screenView', screenName: 'Home', timestamp: 2000 },
+      ]);
+      delete (mockAmplitude as any).flush;
+
+      expect(mockAmplitude.track).toHaveBeenCalledWith('first', { step: 1 }, { time: 1000 });
+      expect(mockAmplitude.track).toHaveBeenCalledWith('Screen View', { screen_name: 'Home' }, { time: 2000 });
+      expect(flush).toHaveBeenCalledTimes(1);
+    });
+
     it('should track event without properties', async () => {
       await provider.trackEvent('Page Viewed');
 
@@ -1,6 +1,6 @@
 import type { AnalyticsProvider } from '../../base';
 import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../types/provider';
-import type { RevenueData } from '../../../definitions';
+import type { BatchedPayload, RevenueData } from '../../../definitions';
 import { RegisterProvider } from '../../registry';
 import { Logger } from '../../../utils/logger';
 
@@ -27,7 +27,7 @@ interface AmplitudeInstance {
   setUserId: (userId: string | null) => void;
   setDeviceId: (deviceId: string) => void;
   setUserProperties: (properties: any) => void;
-  track: (eventName: string, eventProperties?: any) => void;
+  track: (eventName: string, eventProperties?: any, eventOptions?: { time?: number }) => void;
   revenue: (revenue: any) => void;
   setOptOut: (optOut: boolean) => void;
   reset: () => void;
@@ -36,6 +36,7 @@ interface AmplitudeInstance {
   identify: (identify: any) => void;
   Identify: new () => any;
   Revenue: new () => any;
+  flush?: () => { promise: Promise<unknown> };
 }
 
 declare global {
@@ -197,6 +198,42 @@ export class AmplitudeAnalyticsProvider implements AnalyticsProvider {
     }
   }
 
+  /**
+   * Queue the batch in the SDK with each event's original time, then flush it as one upload
+   */
+  async sendBatch(payloads: BatchedPayload[]): Promise<void> {
+    if (!this.isReady()) {
+      throw new Error('Amplitude Analytics not ready');
+    }
+
+    for (const payload of payloads) {
+      switch (payload.type) {
+        case 'track':
+          this.trackAt(payload.eventName, payload.properties, payload.timestamp);
+          break;
+        case 'screenView':
+          this.trackAt('Screen View', { screen_name: payload.screenName, ...payload.properties }, payload.timestamp);
+          break;
+        case 'identify':
+          await this.identifyUser(payload.userId, payload.traits);
+          break;
+        case 'userProperties':
+          await this.setUserProperties(payload.properties);
+          break;
+        case 'revenue':
+          await this.logRevenue(payload.revenue);
+          break;
+      }
+    }
+
+    await this.amplitude!.flush?.().promise;
+  }
+
+  private trackAt(eventName: string, properties: Record<string, any> | undefined, time: number): void {
+    const sanitizedProperties = properties ? this.sanitizeProperties(properties) : undefined;
+    this.amplitude!.track(this.sanitizeEventName(eventName), sanitizedProperties, { time });
+  }
+
   async identifyUser(userId: string, traits?: Record<string, any>): Promise<void> {
     if (!this.isReady()) {
       this.logger.warn('Amplitude Analytics not ready, user not identified');
@@ -217,6 +254,18 @@ export class AmplitudeAnalyticsProvider implements AnalyticsProvider {
     }
   }
 
+  /**
+   * Use the shared anonymous ID as the Amplitude device ID
+   */
+  async setAnonymousId(anonymousId: string): Promise<void> {
+    if (!this.isReady()) {
+      this.logger.warn('Amplitude Analytics not ready, anonymous ID not set');
+      return;
+    }
+
+    this.amplitude!.setDeviceId(anonymousId);
+  }
+
   async setUserProperties(properties: Record<string, any>): Promise<void> {
     if (!this.isReady()) {
       this.logger.warn('Amplitude Analytics not ready, user properties not set');
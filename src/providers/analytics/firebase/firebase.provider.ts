@@ -3,6 +3,7 @@ import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../typ
 import type { RevenueData } from '../../../definitions';
 import { RegisterProvider } from '../../registry';
 import { Logger } from '../../../utils/logger';
+import { toConsentModeParameters } from '../../../utils/consent-mode';
 
 declare global {
   interface Window {
@@ -77,6 +78,14 @@ export class FirebaseAnalyticsProvider implements AnalyticsProvider {
   async updateConsent(consent: ConsentSettings): Promise<void> {
     if (!this.analytics) return;
 
+    // Consent Mode v2 covers the ads signals that collection on/off does not
+    const parameters = toConsentModeParameters(consent);
+    if (typeof this.analytics.setConsent === 'function') {
+      await this.analytics.setConsent(parameters);
+    } else if (typeof window !== 'undefined' && window.gtag) {
+      window.gtag('consent', 'update', parameters);
+    }
+
     if (consent.analytics === false) {
       await this.analytics.setAnalyticsCollectionEnabled(false);
       this.logger.info('Firebase Analytics collection disabled');
@@ -126,13 +126,15 @@ describe('GoogleAnalyticsProvider', () => {
       expect(mockGtag).toHaveBeenCalledWith('consent', 'update', {
         analytics_storage: 'granted',
         ad_storage: 'denied',
+        ad_user_data: 'denied',
+        ad_personalization: 'denied',
         personalization_storage: 'denied',
         functionality_storage: 'granted',
         security_storage: 'granted',
       });
     });
 
-    it('should deny all consent when analytics is disabled', async () => {
+    it('should deny analytics and ads consent when analytics is disabled', async () => {
       const consent: ConsentSettings = {
         analytics: false,
         errorTracking: false,
@@ -145,9 +147,11 @@ describe('GoogleAnalyticsProvider', () => {
       expect(mockGtag).toHaveBeenCalledWith('consent', 'update', {
         analytics_storage: 'denied',
         ad_storage: 'denied',
+        ad_user_data: 'denied',
+        ad_personalization: 'denied',
         personalization_storage: 'denied',
-        functionality_storage: 'denied',
-        security_storage: 'denied',
+        functionality_storage: 'granted',
+        security_storage: 'granted',
       });
     });
   });
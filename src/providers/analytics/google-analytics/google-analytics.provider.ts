@@ -2,6 +2,7 @@ import { BaseAnalyticsProvider } from '../../base-analytics-provider';
 import { RegisterProvider } from '../../registry';
 import type { ProviderConfig, ConsentSettings } from '../../../types/provider';
 import type { RevenueData } from '../../../definitions';
+import { toConsentModeParameters } from '../../../utils/consent-mode';
 
 declare global {
   interface Window {
@@ -35,6 +36,10 @@ interface GoogleAnalyticsConfig extends ProviderConfig {
     anonymizeIp: { type: 'boolean', default: false },
     allowAdFeatures: { type: 'boolean', default: true },
   },
+  consentCategories: ['analytics'],
+  featureConsent: {
+    adsSignals: ['marketing'],
+  },
 })
 export class GoogleAnalyticsProvider extends BaseAnalyticsProvider {
   readonly id = 'google-analytics';
@@ -77,6 +82,8 @@ export class GoogleAnalyticsProvider extends BaseAnalyticsProvider {
     window.gtag('consent', 'default', {
       analytics_storage: 'granted',
       ad_storage: config.allowAdFeatures ? 'granted' : 'denied',
+      ad_user_data: config.allowAdFeatures ? 'granted' : 'denied',
+      ad_personalization: config.allowAdFeatures ? 'granted' : 'denied',
     });
 
     // Configure gtag
@@ -153,13 +160,19 @@ export class GoogleAnalyticsProvider extends BaseAnalyticsProvider {
       return;
     }
 
-    window.gtag('consent', 'update', {
-      analytics_storage: consent.analytics !== false ? 'granted' : 'denied',
-      ad_storage: consent.marketing !== false ? 'granted' : 'denied',
-      personalization_storage: consent.personalization !== false ? 'granted' : 'denied',
-      functionality_storage: consent.analytics !== false ? 'granted' : 'denied',
-      security_storage: consent.analytics !== false ? 'granted' : 'denied',
-    });
+    window.gtag('consent', 'update', toConsentModeParameters(consent));
+  }
+
+  /**
+   * Google signals and ad personalization follow marketing consent
+   */
+  async updateFeatureConsent(features: Record<string, boolean>): Promise<void> {
+    if (!window.gtag || features.adsSignals === undefined) {
+      return;
+    }
+
+    window.gtag('set', 'allow_google_signals', features.adsSignals);
+    window.gtag('set', 'allow_ad_personalization_signals', features.adsSignals);
   }
 
   protected async doTrack(eventName: string, properties: Record<string, any>): Promise<void> {
@@ -185,7 +185,7 @@ export class HeapAnalyticsProvider extends BaseAnalyticsProvider {
       throw new Error('Heap not initialized');
     }
 
-    // Identify user
+    // Heap merges the anonymous visitor's history into the identified user itself, so no alias is needed
     this.heap.identify(userId);
 
     // Add user properties
@@ -290,7 +290,8 @@ export class HeapAnalyticsProvider extends BaseAnalyticsProvider {
   }
 
   /**
-   * Get the current user ID
+   * Get the current user ID. Heap generates this ID itself and has no API to replace it, so Heap
+   * does not implement setAnonymousId and keeps its own ID for anonymous visitors.
    */
   getUserId(): string | null {
     if (!this.heap) return null;
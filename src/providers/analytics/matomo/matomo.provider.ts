@@ -1,7 +1,7 @@
 import { BaseAnalyticsProvider } from '../../base-analytics-provider';
 import { RegisterProvider } from '../../registry';
 import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../types/provider';
-import type { RevenueData } from '../../../definitions';
+import type { BatchedPayload, BeaconRequest, RevenueData } from '../../../definitions';
 
 interface MatomoConfig extends ProviderConfig {
   siteId: number;
@@ -255,6 +255,10 @@ export class MatomoAnalyticsProvider extends BaseAnalyticsProvider {
       this.tracker.setConsentRemoved();
       this.logger.info('Matomo tracking disabled by consent');
     } else if (consent.analytics === true) {
+      // Lift the opt-out left by forgetUser, like the other SDKs' opt-in does
+      if (this.tracker.isUserOptedOut()) {
+        this.tracker.forgetUserOptOut();
+      }
       this.tracker.setConsentGiven();
       this.logger.info('Matomo tracking enabled by consent');
     }
@@ -506,6 +510,82 @@ export class MatomoAnalyticsProvider extends BaseAnalyticsProvider {
     this.tracker.forgetUserOptOut();
   }
 
+  /**
+   * Opt the user out and delete the Matomo visitor cookies
+   */
+  async forgetUser(): Promise<void> {
+    if (!this.tracker) return;
+
+    this.optUserOut();
+    this.tracker.deleteCookies();
+  }
+
+  /**
+   * Events, screen views and orders as one bulk request to the HTTP tracking API, for page hide
+   */
+  getBeaconRequest(payloads: BatchedPayload[]): BeaconRequest | null {
+    if (!this.tracker || !this.matomoConfig || !this.isEnabled()) {
+      return null;
+    }
+
+    const common: Record<string, string> = {
+      idsite: String(this.matomoConfig.siteId),
+      rec: '1',
+      _id: this.tracker.getVisitorId(),
+      url: window.location.href,
+    };
+    const userId = this.tracker.getUserId();
+    if (userId) {
+      common.uid = userId;
+    }
+
+    const requests: string[] = [];
+    for (const payload of payloads) {
+      const params = this.getBeaconParams(payload);
+      if (!params) {
+        // Identify and user property calls change tracker state, which only the SDK can do
+        return null;
+      }
+      requests.push(`?${new URLSearchParams({ ...common, ...params })}`);
+    }
+
+    return {
+      url: `${this.matomoConfig.trackerUrl}/matomo.php`,
+      body: JSON.stringify({ requests }),
+    };
+  }
+
+  private getBeaconParams(payload: BatchedPayload): Record<string, string> | null {
+    switch (payload.type) {
+      case 'track': {
+        // Same mapping as doTrack
+        const properties = this.sanitizeProperties({ ...this.superProperties, ...payload.properties });
+        const params: Record<string, string> = {
+          e_c: String(properties.category || 'General'),
+          e_a: payload.eventName,
+        };
+        const name = properties.name || properties.label;
+        const value = properties.value || properties.revenue;
+        if (name) params.e_n = String(name);
+        if (value) params.e_v = String(value);
+        return params;
+      }
+      case 'screenView':
+        return {
+          action_name: payload.screenName,
+          url: new URL(`/screen/${payload.screenName}`, window.location.href).href,
+        };
+      case 'revenue':
+        return {
+          idgoal: '0',
+          ec_id: payload.revenue.transactionId || `order_${payload.timestamp}`,
+          revenue: String(payload.revenue.amount),
+        };
+      default:
+        return null;
+    }
+  }
+
   /**
    * Send ping request
    */
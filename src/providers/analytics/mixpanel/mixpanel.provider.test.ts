@@ -203,6 +203,20 @@ describe('MixpanelProvider', () => {
       expect(mockMixpanel.track).toHaveBeenCalledWith(eventName, properties, expect.any(Function));
     });
 
+    it('should send batched events with their original time', async () => {
+      await provider.sendBatch([
+        { type: 'track', eventName: 'first', properties: { step: 1 }, timestamp: 1000 },
+        { type: 'screenView', screenName: 'Home', timestamp: 2000 },
+      ]);
+
+      expect(mockMixpanel.track).toHaveBeenCalledWith('first', { step: 1, time: 1000 }, expect.any(Function));
+      expect(mockMixpanel.track).toHaveBeenCalledWith(
+        'Screen View',
+        expect.objectContaining({ screen_name: 'Home', time: 2000 }),
+        expect.any(Function),
+      );
+    });
+
     it('should track events without properties', async () => {
       const eventName = 'test_event';
 
@@ -262,7 +276,28 @@ describe('MixpanelProvider', () => {
       expect(mockMixpanel.people.set).toHaveBeenCalledWith(properties, expect.any(Function));
     });
 
-    // Removed tests for incrementUserProperty and alias - not available in base provider
+    it('should alias against the Mixpanel distinct ID by default', async () => {
+      await provider.alias('user123');
+
+      expect(mockMixpanel.alias).toHaveBeenCalledWith('user123', 'test-distinct-id');
+    });
+
+    it('should use the shared anonymous ID as the device and distinct ID for anonymous visitors', async () => {
+      await provider.setAnonymousId('anon-1');
+
+      expect(mockMixpanel.register).toHaveBeenCalledWith({ distinct_id: 'anon-1', $device_id: 'anon-1' });
+    });
+
+    it('should keep the distinct ID of an identified visitor', async () => {
+      mockMixpanel.get_property.mockReturnValueOnce('user123');
+
+      await provider.setAnonymousId('anon-1');
+
+      expect(mockMixpanel.get_property).toHaveBeenCalledWith('$user_id');
+      expect(mockMixpanel.register).not.toHaveBeenCalled();
+    });
+
+    // Removed tests for incrementUserProperty - not available in base provider
   });
 
   describe('revenue tracking', () => {
@@ -1,7 +1,7 @@
 import { BaseAnalyticsProvider } from '../../base-analytics-provider';
 import { RegisterProvider } from '../../registry';
 import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../types/provider';
-import type { RevenueData } from '../../../definitions';
+import type { BatchedPayload, RevenueData } from '../../../definitions';
 
 interface MixpanelConfig extends ProviderConfig {
   token: string;
@@ -152,12 +152,23 @@ export class MixpanelAnalyticsProvider extends BaseAnalyticsProvider {
 
     const sanitizedName = this.sanitizeEventName(eventName);
     const sanitizedProperties = this.sanitizeProperties(properties);
+    if (this.eventTime !== undefined) {
+      sanitizedProperties.time = this.eventTime;
+    }
 
     return new Promise((resolve) => {
       this.mixpanel!.track(sanitizedName, sanitizedProperties, () => resolve());
     });
   }
 
+  /**
+   * Queue the batch in the SDK with each event's original time; with batch_requests on, the
+   * default, Mixpanel sends queued events together in one request
+   */
+  async sendBatch(payloads: BatchedPayload[]): Promise<void> {
+    await this.replayBatch(payloads);
+  }
+
   protected async doIdentifyUser(userId: string, traits: Record<string, any>): Promise<void> {
     if (!this.mixpanel) {
       throw new Error('Mixpanel not initialized');
@@ -172,6 +183,33 @@ export class MixpanelAnalyticsProvider extends BaseAnalyticsProvider {
     }
   }
 
+  /**
+   * Link a new distinct ID to the previous (anonymous) one, by default the distinct ID Mixpanel tracked the visitor under
+   */
+  async alias(userId: string, previousId?: string): Promise<void> {
+    if (!this.mixpanel) {
+      throw new Error('Mixpanel not initialized');
+    }
+
+    this.mixpanel.alias(userId, previousId ?? this.mixpanel.get_distinct_id());
+  }
+
+  /**
+   * Use the shared anonymous ID as the device and distinct ID while the visitor is anonymous;
+   * Mixpanel records $user_id once identify() has been called, and that user keeps their ID
+   */
+  async setAnonymousId(anonymousId: string): Promise<void> {
+    if (!this.mixpanel) {
+      throw new Error('Mixpanel not initialized');
+    }
+
+    if (this.mixpanel.get_property('$user_id')) {
+      return;
+    }
+
+    this.mixpanel.register({ distinct_id: anonymousId, $device_id: anonymousId });
+  }
+
   protected async doSetUserProperties(properties: Record<string, any>): Promise<void> {
     if (!this.mixpanel) {
       throw new Error('Mixpanel not initialized');
@@ -244,6 +282,16 @@ export class MixpanelAnalyticsProvider extends BaseAnalyticsProvider {
     this.mixpanel.reset();
   }
 
+  /**
+   * Opt out as optOutByDefault would and drop the persisted distinct ID
+   */
+  async forgetUser(): Promise<void> {
+    if (!this.mixpanel) return;
+
+    this.mixpanel.opt_out_tracking();
+    this.mixpanel.reset();
+  }
+
   protected doSetDebugMode(enabled: boolean): void {
     if (this.mixpanel) {
       this.mixpanel.set_config({ debug: enabled });
@@ -222,6 +222,19 @@ describe('PostHogAnalyticsProvider', () => {
       expect(mockPostHog.capture).toHaveBeenCalledWith(eventName, properties);
     });
 
+    it('should send batched events with their original time', async () => {
+      await provider.sendBatch([
+        { type: 'track', eventName: 'first', properties: { step: 1 }, timestamp: 1000 },
+        { type: 'identify', userId: 'user-1', timestamp: 2000 },
+      ]);
+
+      expect(mockPostHog.capture).toHaveBeenCalledWith('first', { step: 1 }, { timestamp: new Date(1000) });
+      expect(mockPostHog.identify).toHaveBeenCalledWith('user-1', expect.anything());
+
+      await provider.track('live');
+      expect(mockPostHog.capture).toHaveBeenLastCalledWith('live', {});
+    });
+
     it('should track events without properties', async () => {
       const eventName = 'test_event';
 
@@ -324,6 +337,21 @@ describe('PostHogAnalyticsProvider', () => {
 
       expect(mockPostHog.alias).toHaveBeenCalledWith(alias, undefined);
     });
+
+    it('should use the shared anonymous ID as the distinct ID for anonymous visitors', async () => {
+      await provider.setAnonymousId('anon-1');
+
+      expect(mockPostHog.register).toHaveBeenCalledWith({ distinct_id: 'anon-1', $device_id: 'anon-1' });
+    });
+
+    it('should keep the distinct ID of an identified visitor', async () => {
+      mockPostHog.get_property.mockReturnValueOnce('identified');
+
+      await provider.setAnonymousId('anon-1');
+
+      expect(mockPostHog.get_property).toHaveBeenCalledWith('$user_state');
+      expect(mockPostHog.register).not.toHaveBeenCalled();
+    });
   });
 
   describe('super properties', () => {
@@ -1,7 +1,7 @@
 import { BaseAnalyticsProvider } from '../../base-analytics-provider';
 import { RegisterProvider } from '../../registry';
 import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../types/provider';
-import type { RevenueData } from '../../../definitions';
+import type { BatchedPayload, RevenueData } from '../../../definitions';
 
 interface PostHogConfig extends ProviderConfig {
   apiKey: string;
@@ -243,7 +243,7 @@ export class PostHogAnalyticsProvider extends BaseAnalyticsProvider {
     }
 
     const cleanProperties = this.sanitizeProperties(properties);
-    this.posthog.capture(eventName, cleanProperties);
+    this.capture(eventName, cleanProperties);
   }
 
   protected async doIdentifyUser(userId: string, traits: Record<string, any>): Promise<void> {
@@ -301,7 +301,7 @@ export class PostHogAnalyticsProvider extends BaseAnalyticsProvider {
       ...this.sanitizeProperties(otherProperties),
     };
 
-    this.posthog.capture('$pageview', screenProperties);
+    this.capture('$pageview', screenProperties);
   }
 
   async logRevenue(data: RevenueData): Promise<void> {
@@ -339,7 +339,23 @@ export class PostHogAnalyticsProvider extends BaseAnalyticsProvider {
       Object.assign(revenueProperties, this.sanitizeProperties(data.properties));
     }
 
-    this.posthog.capture('Purchase', revenueProperties);
+    this.capture('Purchase', revenueProperties);
+  }
+
+  /**
+   * Queue the batch in the SDK with each event's original time; PostHog sends queued captures
+   * together in one batch request
+   */
+  async sendBatch(payloads: BatchedPayload[]): Promise<void> {
+    await this.replayBatch(payloads);
+  }
+
+  private capture(eventName: string, properties: Record<string, any>): void {
+    if (this.eventTime === undefined) {
+      this.posthog!.capture(eventName, properties);
+    } else {
+      this.posthog!.capture(eventName, properties, { timestamp: new Date(this.eventTime) });
+    }
   }
 
   protected async doReset(): Promise<void> {
@@ -348,6 +364,16 @@ export class PostHogAnalyticsProvider extends BaseAnalyticsProvider {
     this.posthog.reset();
   }
 
+  /**
+   * Opt out of capturing and reset, including the device ID
+   */
+  async forgetUser(): Promise<void> {
+    if (!this.posthog) return;
+
+    this.posthog.opt_out_capturing();
+    this.posthog.reset(true);
+  }
+
   protected doSetDebugMode(enabled: boolean): void {
     if (this.posthog) {
       this.posthog.debug(enabled);
@@ -401,6 +427,20 @@ export class PostHogAnalyticsProvider extends BaseAnalyticsProvider {
     return this.posthog.get_distinct_id();
   }
 
+  /**
+   * Use the shared anonymous ID as the distinct ID while the visitor is anonymous; an identified
+   * visitor keeps their user ID as the distinct ID
+   */
+  async setAnonymousId(anonymousId: string): Promise<void> {
+    if (!this.posthog) return;
+
+    if (this.posthog.get_property('$user_state') === 'identified') {
+      return;
+    }
+
+    this.posthog.register({ distinct_id: anonymousId, $device_id: anonymousId });
+  }
+
   /**
    * Get the session ID
    */
@@ -413,7 +453,7 @@ export class PostHogAnalyticsProvider extends BaseAnalyticsProvider {
   /**
    * Alias a user
    */
-  alias(alias: string, distinctId?: string): void {
+  async alias(alias: string, distinctId?: string): Promise<void> {
     if (!this.posthog) return;
 
     this.posthog.alias(alias, distinctId);
@@ -249,6 +249,29 @@ describe('SegmentProvider', () => {
       expect(mockAnalytics.track).toHaveBeenCalledWith(eventName, properties, options, expect.any(Function));
     });
 
+    it('should send batched events with their original time and flush once', async () => {
+      mockAnalytics.flush.mockImplementationOnce((callback: () => void) => callback());
+
+      await provider.sendBatch([
+        { type: 'track', eventName: 'first', properties: { step: 1 }, timestamp: 1000 },
+        { type: 'track', eventName: 'second', timestamp: 2000 },
+      ]);
+
+      expect(mockAnalytics.track).toHaveBeenCalledWith(
+        'first',
+        { step: 1 },
+        { timestamp: new Date(1000) },
+        expect.any(Function),
+      );
+      expect(mockAnalytics.track).toHaveBeenCalledWith(
+        'second',
+        {},
+        { timestamp: new Date(2000) },
+        expect.any(Function),
+      );
+      expect(mockAnalytics.flush).toHaveBeenCalledTimes(1);
+    });
+
     it('should track events without properties', async () => {
       const eventName = 'test_event';
 
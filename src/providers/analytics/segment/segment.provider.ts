@@ -1,7 +1,7 @@
 import { BaseAnalyticsProvider } from '../../base-analytics-provider';
 import { RegisterProvider } from '../../registry';
 import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../types/provider';
-import type { RevenueData } from '../../../definitions';
+import type { BatchedPayload, RevenueData } from '../../../definitions';
 
 interface SegmentConfig extends ProviderConfig {
   writeKey: string;
@@ -279,7 +279,7 @@ export class SegmentAnalyticsProvider extends BaseAnalyticsProvider {
     };
 
     return new Promise<void>((resolve, _reject) => {
-      this.analytics!.screen(screenName, screenProperties, {}, (error?: Error) => {
+      this.analytics!.screen(screenName, screenProperties, this.getEventOptions(), (error?: Error) => {
         if (error) {
           _reject(error);
         } else {
@@ -408,6 +408,14 @@ export class SegmentAnalyticsProvider extends BaseAnalyticsProvider {
     });
   }
 
+  /**
+   * Queue the batch in analytics.js with each event's original time, then flush it as one batch request
+   */
+  async sendBatch(payloads: BatchedPayload[]): Promise<void> {
+    await this.replayBatch(payloads);
+    await this.flush();
+  }
+
   /**
    * Flush queued events
    */
@@ -536,7 +544,7 @@ export class SegmentAnalyticsProvider extends BaseAnalyticsProvider {
     }
 
     const cleanProperties = properties ? this.sanitizeProperties(properties) : {};
-    const cleanOptions = options || {};
+    const cleanOptions = this.getEventOptions(options);
 
     return new Promise<void>((resolve, _reject) => {
       this.analytics!.track(eventName, cleanProperties, cleanOptions, (error?: Error) => {
@@ -704,6 +712,13 @@ export class SegmentAnalyticsProvider extends BaseAnalyticsProvider {
     await this.logRevenue(data);
   }
 
+  /**
+   * Call options carrying the original time of an event replayed from a batch
+   */
+  private getEventOptions(options: Record<string, any> = {}): Record<string, any> {
+    return this.eventTime === undefined ? options : { timestamp: new Date(this.eventTime), ...options };
+  }
+
   /**
    * Override doTrack to not include callback in base class call
    */
@@ -1,7 +1,8 @@
 import { BaseProviderImpl } from './base-provider-impl';
 import type { AnalyticsProvider } from './base';
-import type { RevenueData } from '../definitions';
+import type { BatchedPayload, RevenueData } from '../definitions';
 import type { ProviderType } from '../types/provider';
+import { SessionManager } from '../utils/session-manager';
 
 /**
  * Abstract base class for analytics provider implementations
@@ -12,6 +13,15 @@ export abstract class BaseAnalyticsProvider extends BaseProviderImpl implements
   protected superProperties: Record<string, any> = {};
   protected timedEvents: Map<string, number> = new Map();
 
+  // Optional AnalyticsProvider hooks, implemented by the providers that support them
+  alias?(userId: string, previousId?: string): Promise<void>;
+  setAnonymousId?(anonymousId: string): Promise<void>;
+
+  /**
+   * When the queued event being handed over by replayBatch was raised, for SDKs that accept a past time
+   */
+  protected eventTime?: number;
+
   async track(eventName: string, properties?: Record<string, any>): Promise<void> {
     this.checkReady();
 
@@ -174,6 +184,42 @@ export abstract class BaseAnalyticsProvider extends BaseProviderImpl implements
     await this.setUserProperties({ [property]: value });
   }
 
+  /**
+   * Hand queued payloads to the SDK in order, each with eventTime set to when it was raised.
+   * Providers with bulk submission call this from sendBatch and then flush the SDK once.
+   */
+  protected async replayBatch(payloads: BatchedPayload[]): Promise<void> {
+    try {
+      for (const payload of payloads) {
+        this.eventTime = payload.timestamp;
+
+        switch (payload.type) {
+          case 'track':
+            await this.track(payload.eventName, payload.properties);
+            break;
+          case 'identify':
+            // Same stitching as a single delivery: only SDKs given the shared anonymous ID alias it
+            if (payload.previousId && this.alias) {
+              await this.alias(payload.userId, this.setAnonymousId ? payload.previousId : undefined);
+            }
+            await this.identifyUser(payload.userId, payload.traits);
+            break;
+          case 'userProperties':
+            await this.setUserProperties(payload.properties);
+            break;
+          case 'revenue':
+            await this.logRevenue(payload.revenue);
+            break;
+          case 'screenView':
+            await this.logScreenView(payload.screenName, payload.properties);
+            break;
+        }
+      }
+    } finally {
+      this.eventTime = undefined;
+    }
+  }
+
   protected async doReset(): Promise<void> {
     this.superProperties = {};
     this.timedEvents.clear();
@@ -192,7 +238,7 @@ export abstract class BaseAnalyticsProvider extends BaseProviderImpl implements
     return {
       timestamp: new Date().toISOString(),
       platform: this.getPlatform(),
-      session_id: this.getSessionId?.(),
+      session_id: this.getSessionId(),
       ...this.superProperties,
     };
   }
@@ -212,5 +258,7 @@ export abstract class BaseAnalyticsProvider extends BaseProviderImpl implements
   /**
    * Get session ID (override in subclasses if needed)
    */
-  protected getSessionId?(): string | null;
+  protected getSessionId(): string | null {
+    return SessionManager.getInstance().getSessionId();
+  }
 }
@@ -2,6 +2,7 @@ import { BaseProviderImpl } from './base-provider-impl';
 import type { ErrorTrackingProvider } from './base';
 import type { ErrorContext } from '../definitions';
 import type { ProviderType } from '../types/provider';
+import { parseStack } from '../utils/stack-parser';
 
 interface Breadcrumb {
   message: string;
@@ -26,7 +27,7 @@ export abstract class BaseErrorTrackingProvider extends BaseProviderImpl impleme
     this.checkReady();
 
     const errorObject = typeof error === 'string' ? new Error(error) : error;
-    const enrichedContext = this.enrichContext(context);
+    const enrichedContext = this.enrichContext(context, errorObject);
 
     this.debug('Logging error', { error: errorObject, context: enrichedContext });
 
@@ -175,7 +176,7 @@ export abstract class BaseErrorTrackingProvider extends BaseProviderImpl impleme
   /**
    * Enrich error context with global context data
    */
-  protected enrichContext(context?: ErrorContext): ErrorContext {
+  protected enrichContext(context?: ErrorContext, error?: Error): ErrorContext {
     // Merge breadcrumbs from context and provider
     const allBreadcrumbs = [...this.breadcrumbs, ...(context?.breadcrumbs || [])];
 
@@ -187,6 +188,7 @@ export abstract class BaseErrorTrackingProvider extends BaseProviderImpl impleme
       breadcrumbs: allBreadcrumbs,
       timestamp: context?.timestamp || new Date().toISOString(),
       platform: context?.platform || this.getPlatform(),
+      frames: context?.frames || parseStack(error?.stack),
     };
   }
 
@@ -210,6 +212,7 @@ export abstract class BaseErrorTrackingProvider extends BaseProviderImpl impleme
       name: error.name,
       message: error.message,
       stack: error.stack,
+      frames: parseStack(error.stack),
       ...this.extractErrorProperties(error),
     };
   }
@@ -1,4 +1,4 @@
-import type { ErrorContext, RevenueData } from '../definitions';
+import type { BatchedPayload, BeaconRequest, ErrorContext, RevenueData } from '../definitions';
 import type { Provider, ProviderConfig, ProviderType, ConsentSettings } from '../types/provider';
 
 /**
@@ -79,6 +79,21 @@ export interface BaseProvider extends Provider {
    * Resume provider (optional)
    */
   resume?(): Promise<void>;
+
+  /**
+   * Opt the user out and delete the data the SDK holds about them (optional)
+   */
+  forgetUser?(): Promise<void>;
+
+  /**
+   * Send several queued events in one request (optional)
+   */
+  sendBatch?(payloads: BatchedPayload[]): Promise<void>;
+
+  /**
+   * Build an HTTP request for events sent while the page is unloading (optional)
+   */
+  getBeaconRequest?(payloads: BatchedPayload[]): BeaconRequest | null;
 }
 
 /**
@@ -134,6 +149,16 @@ export interface AnalyticsProvider extends BaseProvider {
    * Increment a user property
    */
   incrementUserProperty?(property: string, value?: number): Promise<void>;
+
+  /**
+   * Use the given ID for events sent before the user is identified
+   */
+  setAnonymousId?(anonymousId: string): Promise<void>;
+
+  /**
+   * Link a user ID to a previous (anonymous) ID
+   */
+  alias?(userId: string, previousId?: string): Promise<void>;
 }
 
 /**
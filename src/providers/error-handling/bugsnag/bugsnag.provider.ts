@@ -215,6 +215,16 @@ export class BugsnagErrorTrackingProvider extends BaseErrorTrackingProvider {
     }
 
     this.bugsnag.notify(error, (event) => {
+      if (context?.frames?.length && event.errors?.[0]) {
+        event.errors[0].stacktrace = context.frames.map((frame) => ({
+          file: frame.file,
+          lineNumber: frame.line,
+          columnNumber: frame.column,
+          method: frame.function,
+          inProject: frame.inApp,
+        }));
+      }
+
       if (context) {
         // Set user information
         if (context.user) {
@@ -357,6 +357,16 @@ export class FirebaseCrashlyticsProvider extends BaseErrorTrackingProvider {
     this.crashlytics.deleteUnsentReports();
   }
 
+  /**
+   * Delete unsent reports and clear the user ID; unlike reset, nothing is sent
+   */
+  async forgetUser(): Promise<void> {
+    if (!this.crashlytics) return;
+
+    this.crashlytics.deleteUnsentReports();
+    this.crashlytics.setUserId('');
+  }
+
   /**
    * Check if the app crashed on the previous execution
    */
@@ -97,6 +97,8 @@ declare global {
   type: 'error-tracking' as ProviderType,
   version: '1.0.0',
   supportedPlatforms: ['web'],
+  // Session replay records user behaviour, so it also needs personalization consent
+  consentCategories: ['errorTracking', 'personalization'],
   configSchema: {
     appID: { type: 'string', required: true },
     release: { type: 'string' },
@@ -229,7 +231,7 @@ export class LogRocketErrorTrackingProvider extends BaseErrorTrackingProvider {
   protected async doUpdateConsent(consent: ConsentSettings): Promise<void> {
     if (!this.logRocket) return;
 
-    if (consent.errorTracking === false) {
+    if (consent.errorTracking === false || consent.personalization === false) {
       this.logRocket.stop();
       this.logger.info('LogRocket tracking disabled by consent');
     } else if (consent.errorTracking === true) {
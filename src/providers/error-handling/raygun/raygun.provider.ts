@@ -255,6 +255,10 @@ export class RaygunProvider extends BaseErrorTrackingProvider {
       customData.severity = context.severity;
     }
 
+    if (context.frames?.length) {
+      customData.stackFrames = context.frames;
+    }
+
     // Prepare tags
     const tags: string[] = [];
     if (context.tags) {
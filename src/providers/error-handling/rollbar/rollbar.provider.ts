@@ -280,6 +280,10 @@ export class RollbarErrorTrackingProvider extends BaseErrorTrackingProvider {
       if (context.severity) {
         extra.severity = context.severity;
       }
+
+      if (context.frames?.length) {
+        extra.stackFrames = context.frames;
+      }
     }
 
     // Choose the appropriate log level
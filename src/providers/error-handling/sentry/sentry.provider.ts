@@ -1,7 +1,7 @@
 import { BaseErrorTrackingProvider } from '../../base-error-tracking-provider';
 import { RegisterProvider } from '../../registry';
 import type { ProviderConfig, ProviderType, ConsentSettings } from '../../../types/provider';
-import type { ErrorContext } from '../../../definitions';
+import type { ErrorContext, StackFrame } from '../../../definitions';
 
 interface SentryConfig extends ProviderConfig {
   dsn: string;
@@ -230,6 +230,18 @@ export class SentryErrorTrackingProvider extends BaseErrorTrackingProvider {
         scope.setLevel(this.mapSeverityToSentry(context.severity));
       }
 
+      // Send the normalized frames instead of Sentry's own parse of the stack string
+      if (context.frames?.length && typeof scope.addEventProcessor === 'function') {
+        const frames = this.convertFramesToSentry(context.frames);
+        scope.addEventProcessor((event: any) => {
+          const values = event.exception?.values;
+          if (values?.length) {
+            values[values.length - 1].stacktrace = { frames };
+          }
+          return event;
+        });
+      }
+
       // Capture the exception
       // Only pass context if it has meaningful data
       if (Object.keys(sentryContext).length > 0) {
@@ -347,6 +359,19 @@ export class SentryErrorTrackingProvider extends BaseErrorTrackingProvider {
     return severityMap[severity] || 'error';
   }
 
+  /**
+   * Sentry lists frames outermost first
+   */
+  private convertFramesToSentry(frames: StackFrame[]): any[] {
+    return [...frames].reverse().map((frame) => ({
+      filename: frame.file,
+      function: frame.function || '?',
+      lineno: frame.line,
+      colno: frame.column,
+      in_app: frame.inApp,
+    }));
+  }
+
   /**
    * Convert context to Sentry format
    */
@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ProviderManager } from './provider-manager';
+import { EventQueue } from '../utils/event-queue';
+import { MemoryQueueStorage } from '../utils/queue-storage';
+import { ConfigManager } from '../utils/config-manager';
+import { CircuitBreaker } from '../utils/circuit-breaker';
 import type { ConsentSettings, ErrorContext, RevenueData } from '../definitions';
 
 describe('ProviderManager', () => {
@@ -219,4 +223,496 @@ describe('ProviderManager', () => {
       expect(providers).toHaveLength(0);
     });
   });
+
+  describe('queued delivery', () => {
+    beforeEach(() => {
+      EventQueue.getInstance().clear();
+    });
+
+    it('should keep events for providers that are not ready and redeliver them', async () => {
+      mockAnalyticsProvider.isReady.mockReturnValue(false);
+      providerManager['providers'].set('test', { provider: mockAnalyticsProvider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('queued_event', { value: 1 });
+
+      expect(mockAnalyticsProvider.trackEvent).not.toHaveBeenCalled();
+      expect(EventQueue.getInstance().getEventsForProvider('test')).toHaveLength(1);
+
+      mockAnalyticsProvider.isReady.mockReturnValue(true);
+      await providerManager['deliverQueuedEvents'](EventQueue.getInstance().getEventsForProvider('test'));
+
+      expect(mockAnalyticsProvider.trackEvent).toHaveBeenCalledWith('queued_event', { value: 1 });
+      expect(EventQueue.getInstance().getQueueSize()).toBe(0);
+    });
+
+    it('should queue events with the timestamp they were raised at', async () => {
+      mockAnalyticsProvider.isReady.mockReturnValue(false);
+      providerManager['providers'].set('test', { provider: mockAnalyticsProvider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('early_event', {}, 1_700_000_000_000);
+
+      const [event] = EventQueue.getInstance().getEventsForProvider('test');
+      expect(event.timestamp).toBe(1_700_000_000_000);
+      expect(event.data).toEqual({ eventName: 'early_event', properties: {} });
+    });
+
+    it('should only retry the providers that failed', async () => {
+      const otherProvider = { ...mockAnalyticsProvider, trackEvent: vi.fn().mockRejectedValue(new Error('Offline')) };
+      providerManager['providers'].set('ok', { provider: mockAnalyticsProvider, state: 'active', config: {} });
+      providerManager['providers'].set('failing', { provider: otherProvider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('partial_event');
+
+      expect(mockAnalyticsProvider.trackEvent).toHaveBeenCalledTimes(1);
+      expect(EventQueue.getInstance().getEventsForProvider('ok')).toHaveLength(0);
+      expect(EventQueue.getInstance().getEventsForProvider('failing')).toHaveLength(1);
+    });
+
+    it('should drop pending events when consent is withdrawn', async () => {
+      mockAnalyticsProvider.isReady.mockReturnValue(false);
+      mockAnalyticsProvider.updateConsent = vi.fn().mockResolvedValue(undefined);
+      providerManager['providers'].set('test', { provider: mockAnalyticsProvider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('queued_event');
+      await providerManager.updateConsent({ analytics: false });
+
+      expect(EventQueue.getInstance().getQueueSize()).toBe(0);
+    });
+  });
+
+  describe('routing', () => {
+    it('should only send events to providers whose routing rules match', async () => {
+      const googleProvider = { ...mockAnalyticsProvider, trackEvent: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('mixpanel', { provider: mockAnalyticsProvider, state: 'active', config: {} });
+      providerManager['providers'].set('google', { provider: googleProvider, state: 'active', config: {} });
+      providerManager['router'].setRules({
+        mixpanel: { include: ['checkout_*'] },
+        google: { exclude: ['debug_*'] },
+      });
+
+      await providerManager.trackEvent('checkout_started');
+      await providerManager.trackEvent('debug_render');
+
+      expect(mockAnalyticsProvider.trackEvent).toHaveBeenCalledTimes(1);
+      expect(mockAnalyticsProvider.trackEvent).toHaveBeenCalledWith('checkout_started', undefined);
+      expect(googleProvider.trackEvent).toHaveBeenCalledTimes(1);
+      expect(googleProvider.trackEvent).toHaveBeenCalledWith('checkout_started', undefined);
+    });
+  });
+
+  describe('identity', () => {
+    it('should alias before identifying when a previous ID is given', async () => {
+      const provider = {
+        ...mockAnalyticsProvider,
+        alias: vi.fn().mockResolvedValue(undefined),
+        identifyUser: vi.fn().mockResolvedValue(undefined),
+        setAnonymousId: vi.fn().mockResolvedValue(undefined),
+      };
+      providerManager['providers'].set('segment', { provider, state: 'active', config: {} });
+
+      await providerManager.identifyUser('user-1', { plan: 'pro' }, 'anon-1');
+
+      expect(provider.alias).toHaveBeenCalledWith('user-1', 'anon-1');
+      expect(provider.identifyUser).toHaveBeenCalledWith('user-1', { plan: 'pro' });
+      expect(provider.alias.mock.invocationCallOrder[0]).toBeLessThan(
+        provider.identifyUser.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should let providers without the shared anonymous ID alias their own distinct ID', async () => {
+      const provider = { ...mockAnalyticsProvider, alias: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('mixpanel', { provider, state: 'active', config: {} });
+
+      await providerManager.identifyUser('user-1', undefined, 'anon-1');
+
+      expect(provider.alias).toHaveBeenCalledWith('user-1', undefined);
+    });
+
+    it('should share the anonymous ID with providers registered later', async () => {
+      const provider = {
+        ...mockAnalyticsProvider,
+        initialize: vi.fn().mockResolvedValue(undefined),
+        setAnonymousId: vi.fn().mockResolvedValue(undefined),
+      };
+
+      await providerManager.setAnonymousId('anon-1');
+      await providerManager.registerProvider('amplitude', provider as any, {});
+
+      expect(provider.setAnonymousId).toHaveBeenCalledWith('anon-1');
+    });
+  });
+
+  describe('batching', () => {
+    let getConfig: ReturnType<typeof vi.spyOn>;
+
+    const useBatching = (batching: any) => {
+      getConfig = vi.spyOn(ConfigManager.getInstance(), 'getConfig').mockReturnValue({ settings: { batching } } as any);
+    };
+
+    beforeEach(() => {
+      EventQueue.getInstance().clear();
+    });
+
+    afterEach(() => {
+      getConfig?.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('should send events as one array once the batch is full', async () => {
+      useBatching({ enabled: true, maxSize: 2, timeout: 10000 });
+      const provider = { ...mockAnalyticsProvider, sendBatch: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('segment', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('first', { n: 1 });
+      expect(provider.sendBatch).not.toHaveBeenCalled();
+
+      await providerManager.trackEvent('second', { n: 2 });
+
+      expect(provider.sendBatch).toHaveBeenCalledTimes(1);
+      expect(provider.sendBatch.mock.calls[0][0]).toEqual([
+        expect.objectContaining({
+          type: 'track',
+          eventName: 'first',
+          properties: { n: 1 },
+          timestamp: expect.any(Number),
+        }),
+        expect.objectContaining({ type: 'track', eventName: 'second', properties: { n: 2 } }),
+      ]);
+      expect(provider.trackEvent).not.toHaveBeenCalled();
+      expect(EventQueue.getInstance().getQueueSize()).toBe(0);
+    });
+
+    it('should flush a partial batch once the timeout passes', async () => {
+      vi.useFakeTimers();
+      useBatching({ enabled: true, maxSize: 20, timeout: 1000 });
+      const provider = { ...mockAnalyticsProvider, sendBatch: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('segment', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('lonely');
+      expect(provider.sendBatch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(provider.sendBatch).toHaveBeenCalledWith([expect.objectContaining({ eventName: 'lonely' })]);
+    });
+
+    it('should split batches by byte budget', async () => {
+      useBatching({ enabled: true, maxSize: 20, timeout: 10000, maxBytes: 100 });
+      const provider = { ...mockAnalyticsProvider, sendBatch: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('segment', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('a', { text: 'x'.repeat(40) });
+      await providerManager.trackEvent('b', { text: 'x'.repeat(40) });
+
+      expect(provider.sendBatch).toHaveBeenCalledTimes(2);
+      expect(provider.sendBatch.mock.calls[0][0]).toHaveLength(1);
+      expect(provider.sendBatch.mock.calls[1][0]).toHaveLength(1);
+    });
+
+    it('should only batch providers without bulk submission when their override enables it', async () => {
+      useBatching({ enabled: true, maxSize: 2, timeout: 10000, providers: { batched: { enabled: true } } });
+      const batched = { ...mockAnalyticsProvider, trackEvent: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('batched', { provider: batched, state: 'active', config: {} });
+      providerManager['providers'].set('direct', { provider: mockAnalyticsProvider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('first');
+      expect(mockAnalyticsProvider.trackEvent).toHaveBeenCalledTimes(1);
+      expect(batched.trackEvent).not.toHaveBeenCalled();
+
+      await providerManager.trackEvent('second');
+      expect(batched.trackEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep a failed batch queued for retry', async () => {
+      useBatching({ enabled: true, maxSize: 1, timeout: 10000 });
+      const provider = { ...mockAnalyticsProvider, sendBatch: vi.fn().mockRejectedValue(new Error('Offline')) };
+      providerManager['providers'].set('segment', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('failing');
+
+      const [event] = EventQueue.getInstance().getEventsForProvider('segment');
+      expect(event.providerRetries).toEqual({ segment: 1 });
+    });
+
+    it('should keep the probe of a half-open circuit for a flush with events to send', async () => {
+      useBatching({ enabled: true, maxSize: 1, timeout: 10000 });
+      const provider = { ...mockAnalyticsProvider, sendBatch: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('segment', { provider, state: 'active', config: {} });
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 0 });
+      breaker.recordFailure();
+      providerManager['breakers'].set('segment', breaker);
+
+      await providerManager['flushBatch']('segment');
+      expect(breaker.getState()).toBe('open');
+
+      await providerManager.trackEvent('probe');
+
+      expect(provider.sendBatch).toHaveBeenCalledWith([expect.objectContaining({ eventName: 'probe' })]);
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+
+  describe('retries', () => {
+    let getConfig: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      EventQueue.getInstance().clear();
+      getConfig = vi
+        .spyOn(ConfigManager.getInstance(), 'getConfig')
+        .mockReturnValue({ settings: { retry: { baseDelay: 1000, failureThreshold: 2, resetTimeout: 5000 } } } as any);
+    });
+
+    afterEach(() => {
+      getConfig.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('should drop events a provider rejects permanently', async () => {
+      const provider = {
+        ...mockAnalyticsProvider,
+        trackEvent: vi.fn().mockRejectedValue(Object.assign(new Error('Bad request'), { status: 400 })),
+      };
+      providerManager['providers'].set('test', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('invalid');
+      await providerManager.trackEvent('next');
+
+      expect(provider.trackEvent).toHaveBeenCalledTimes(2);
+      expect(EventQueue.getInstance().getQueueSize()).toBe(0);
+    });
+
+    it('should not redeliver an event whose delivery is still in flight', async () => {
+      let finish!: () => void;
+      const provider = {
+        ...mockAnalyticsProvider,
+        trackEvent: vi.fn().mockReturnValue(new Promise<void>((resolve) => (finish = resolve))),
+      };
+      providerManager['providers'].set('test', { provider, state: 'active', config: {} });
+
+      const tracking = providerManager.trackEvent('slow');
+      await providerManager['deliverQueuedEvents'](EventQueue.getInstance().getEventsForProvider('test'));
+      finish();
+      await tracking;
+
+      expect(provider.trackEvent).toHaveBeenCalledTimes(1);
+      expect(EventQueue.getInstance().getQueueSize()).toBe(0);
+    });
+
+    it('should back off before retrying a failed provider', async () => {
+      const provider = { ...mockAnalyticsProvider, trackEvent: vi.fn().mockRejectedValue(new Error('Offline')) };
+      providerManager['providers'].set('test', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('first');
+      await providerManager['deliverQueuedEvents'](EventQueue.getInstance().getEventsForProvider('test'));
+
+      expect(provider.trackEvent).toHaveBeenCalledTimes(1);
+      expect(EventQueue.getInstance().getEventsForProvider('test')).toHaveLength(1);
+    });
+
+    it('should move a failing provider to the error state and restore it once a probe succeeds', async () => {
+      vi.useFakeTimers();
+      const provider = { ...mockAnalyticsProvider, trackEvent: vi.fn().mockRejectedValue(new Error('Offline')) };
+      providerManager['providers'].set('test', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('first');
+      await vi.advanceTimersByTimeAsync(1000);
+      await providerManager['deliverQueuedEvents'](EventQueue.getInstance().getEventsForProvider('test'));
+
+      expect(provider.trackEvent).toHaveBeenCalledTimes(2);
+      expect(providerManager.getProviderStates()).toEqual({ test: 'error' });
+
+      provider.trackEvent.mockResolvedValue(undefined);
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(provider.trackEvent).toHaveBeenCalledTimes(3);
+      expect(providerManager.getProviderStates()).toEqual({ test: 'active' });
+      expect(EventQueue.getInstance().getQueueSize()).toBe(0);
+    });
+  });
+
+  describe('page hide', () => {
+    const request = { url: 'https://collector.example.com/batch', body: '[]' };
+
+    beforeEach(() => {
+      EventQueue.getInstance().clear();
+    });
+
+    afterEach(() => {
+      delete (navigator as any).sendBeacon;
+      vi.unstubAllGlobals();
+    });
+
+    it('should beacon pending events for providers that can build a request', async () => {
+      (navigator as any).sendBeacon = vi.fn().mockReturnValue(true);
+      const provider = {
+        ...mockAnalyticsProvider,
+        isReady: vi.fn().mockReturnValue(false),
+        getBeaconRequest: vi.fn(() => request),
+      };
+      providerManager['providers'].set('collector', { provider, state: 'active', config: {} });
+      providerManager['providers'].set('sdk', {
+        provider: { ...provider, getBeaconRequest: undefined },
+        state: 'active',
+        config: {},
+      });
+
+      await providerManager.trackEvent('last', { n: 1 });
+      providerManager['beaconQueuedEvents'](EventQueue.getInstance().getEvents());
+
+      expect(provider.getBeaconRequest).toHaveBeenCalledWith([
+        expect.objectContaining({ type: 'track', eventName: 'last', properties: { n: 1 } }),
+      ]);
+      expect(navigator.sendBeacon).toHaveBeenCalledWith(request.url, expect.any(Blob));
+      expect(EventQueue.getInstance().getEventsForProvider('collector')).toHaveLength(0);
+      expect(EventQueue.getInstance().getEventsForProvider('sdk')).toHaveLength(1);
+    });
+
+    it('should fall back to a keepalive fetch and keep the events when it fails', async () => {
+      (navigator as any).sendBeacon = vi.fn().mockReturnValue(false);
+      const fetchMock = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = {
+        ...mockAnalyticsProvider,
+        isReady: vi.fn().mockReturnValue(false),
+        getBeaconRequest: vi.fn(() => request),
+      };
+      providerManager['providers'].set('collector', { provider, state: 'active', config: {} });
+
+      await providerManager.trackEvent('last');
+      providerManager['beaconQueuedEvents'](EventQueue.getInstance().getEvents());
+
+      expect(fetchMock).toHaveBeenCalledWith(request.url, expect.objectContaining({ keepalive: true }));
+      await vi.waitFor(() => expect(EventQueue.getInstance().getEventsToDeliver('collector')).toHaveLength(1));
+    });
+
+    it('should keep events stored but not resend them while the keepalive fetch is pending', async () => {
+      (navigator as any).sendBeacon = vi.fn().mockReturnValue(false);
+      let respond!: (response: { ok: boolean }) => void;
+      vi.stubGlobal('fetch', vi.fn().mockReturnValue(new Promise((resolve) => (respond = resolve))));
+      const provider = {
+        ...mockAnalyticsProvider,
+        isReady: vi.fn().mockReturnValue(false),
+        getBeaconRequest: vi.fn(() => request),
+      };
+      providerManager['providers'].set('collector', { provider, state: 'active', config: {} });
+      const queue = EventQueue.getInstance();
+      const storage = new MemoryQueueStorage();
+      await queue.setStorage(storage);
+
+      await providerManager.trackEvent('last');
+      providerManager['beaconQueuedEvents'](queue.getEvents());
+      await queue.whenPersisted();
+
+      expect(queue.getEventsToDeliver('collector')).toEqual([]);
+      expect(await storage.load()).toHaveLength(1);
+
+      respond({ ok: true });
+      await vi.waitFor(() => expect(queue.getQueueSize()).toBe(0));
+      await queue.whenPersisted();
+      expect(await storage.load()).toEqual([]);
+    });
+  });
+
+  describe('forgetUser', () => {
+    it('should run opt-out hooks, fall back to reset and drop queued events', async () => {
+      const forgetful = { ...mockAnalyticsProvider, forgetUser: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('mixpanel', { provider: forgetful, state: 'active', config: {} });
+      providerManager['providers'].set('sentry', { provider: mockErrorProvider, state: 'active', config: {} });
+      const clear = vi.spyOn(EventQueue.getInstance(), 'clear');
+
+      await providerManager.forgetUser();
+
+      expect(forgetful.forgetUser).toHaveBeenCalled();
+      expect(forgetful.reset).not.toHaveBeenCalled();
+      expect(mockErrorProvider.reset).toHaveBeenCalled();
+      expect(clear).toHaveBeenCalled();
+    });
+  });
+
+  describe('consent categories', () => {
+    it('should disable providers whose declared consent categories are denied', async () => {
+      const provider = { ...mockErrorProvider, updateConsent: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('logrocket', {
+        provider,
+        state: 'active',
+        config: {},
+        metadata: { consentCategories: ['errorTracking', 'personalization'] } as any,
+      });
+
+      await providerManager.updateConsent({ personalization: false });
+      expect(providerManager.getProviderStates()).toEqual({ logrocket: 'disabled' });
+
+      await providerManager.updateConsent({ personalization: true });
+      expect(providerManager.getProviderStates()).toEqual({ logrocket: 'active' });
+    });
+
+    it('should toggle provider features with their consent categories', async () => {
+      const provider = {
+        ...mockAnalyticsProvider,
+        updateConsent: vi.fn().mockResolvedValue(undefined),
+        updateFeatureConsent: vi.fn().mockResolvedValue(undefined),
+      };
+      providerManager['providers'].set('google-analytics', {
+        provider,
+        state: 'active',
+        config: {},
+        metadata: { featureConsent: { adsSignals: ['marketing'] } } as any,
+      });
+
+      await providerManager.updateConsent({ marketing: false });
+
+      expect(provider.updateFeatureConsent).toHaveBeenCalledWith({ adsSignals: false });
+      expect(providerManager.getProviderStates()).toEqual({ 'google-analytics': 'active' });
+    });
+
+    it('should pass the merged consent to providers', async () => {
+      const provider = { ...mockAnalyticsProvider, updateConsent: vi.fn().mockResolvedValue(undefined) };
+      providerManager['providers'].set('firebase', { provider, state: 'active', config: {} });
+      const getConsent = vi
+        .spyOn(ConfigManager.getInstance(), 'getConsent')
+        .mockReturnValue({ analytics: true, marketing: false });
+
+      await providerManager.updateConsent({ personalization: true });
+      getConsent.mockRestore();
+
+      expect(provider.updateConsent).toHaveBeenCalledWith({ analytics: true, marketing: false, personalization: true });
+    });
+
+    it('should not load providers until consent is granted in consentRequired mode', async () => {
+      (ConfigManager as any).instance = undefined;
+      const manager = new ProviderManager();
+      const provider = {
+        ...mockAnalyticsProvider,
+        initialize: vi.fn().mockResolvedValue(undefined),
+        updateConsent: vi.fn().mockResolvedValue(undefined),
+        shutdown: vi.fn().mockResolvedValue(undefined),
+      };
+      manager['loadProvider'] = vi.fn().mockResolvedValue(provider);
+      manager['getProviderMetadata'] = vi.fn().mockResolvedValue(undefined);
+
+      await manager.initialize({
+        autoDetect: false,
+        analytics: { providers: ['mixpanel'] },
+        settings: { consentRequired: true },
+      } as any);
+
+      expect(provider.initialize).not.toHaveBeenCalled();
+      expect(manager.getDeferredProviders()).toEqual(['mixpanel']);
+
+      await manager.updateConsent({ analytics: true });
+
+      expect(provider.initialize).toHaveBeenCalled();
+      expect(manager.getProviderStates()).toEqual({ mixpanel: 'active' });
+      expect(manager.getDeferredProviders()).toEqual([]);
+      // Categories the user has not granted reach the SDK as denied
+      expect(provider.updateConsent).toHaveBeenLastCalledWith({
+        analytics: true,
+        errorTracking: false,
+        marketing: false,
+        personalization: false,
+      });
+
+      await manager.shutdown();
+    });
+  });
 });
@@ -1,15 +1,43 @@
 import { Logger } from '../utils/logger';
 import { ConfigManager } from '../utils/config-manager';
 import { EventQueue } from '../utils/event-queue';
-import type { Provider, ProviderType, ProviderState, ProviderConfig, ConsentSettings } from '../types/provider';
+import { EventRouter } from '../utils/event-router';
+import { CircuitBreaker, isRetryableError } from '../utils/circuit-breaker';
+import { sendBeacon, sendKeepalive } from '../utils/beacon';
+import type { QueuedEvent, QueuedEventType } from '../utils/event-queue';
+import type {
+  Provider,
+  ProviderType,
+  ProviderState,
+  ProviderConfig,
+  ProviderMetadata,
+  ConsentSettings,
+} from '../types/provider';
 import type { AnalyticsProvider } from './base';
 import type { ErrorTrackingProvider } from './base';
-import type { UnifiedTrackingConfig, ErrorContext, RevenueData } from '../definitions';
+import type { UnifiedTrackingConfig, ErrorContext, RevenueData, TrackingPayload, BatchedPayload } from '../definitions';
+import type { MiddlewarePipeline } from '../core/middleware-pipeline';
 
 export interface ProviderInstance {
   provider: Provider;
   state: ProviderState;
   config: ProviderConfig;
+  metadata?: ProviderMetadata;
+}
+
+interface ResolvedBatching {
+  maxSize: number;
+  timeout: number;
+  maxBytes?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_BATCH_TIMEOUT = 10000;
+
+interface DeferredProvider {
+  provider: Provider;
+  config: ProviderConfig;
+  metadata?: ProviderMetadata;
 }
 
 export class ProviderManager {
@@ -18,6 +46,21 @@ export class ProviderManager {
   private configManager: ConfigManager;
   private eventQueue: EventQueue;
   private initialized = false;
+  // Configured providers whose SDK is still loading, keyed by id
+  private loadingProviders: Map<string, ProviderType> = new Map();
+  private middleware?: MiddlewarePipeline;
+  private router: EventRouter = new EventRouter();
+  private anonymousId?: string;
+  // Providers waiting for consent before their SDK is loaded (consentRequired mode)
+  private deferredProviders: Map<string, DeferredProvider> = new Map();
+  // Scheduled age-based flush per batched provider
+  private batchTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private flushingBatches: Set<string> = new Set();
+  // Serialized size of queued events, for byte budgets
+  private eventSizes: WeakMap<QueuedEvent, number> = new WeakMap();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  // Scheduled probe per provider whose circuit is open
+  private probeTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
   constructor() {
     this.logger = Logger.getInstance();
@@ -25,6 +68,13 @@ export class ProviderManager {
     this.eventQueue = EventQueue.getInstance();
   }
 
+  /**
+   * Destination middleware is applied to each delivery, including redeliveries
+   */
+  setMiddleware(middleware: MiddlewarePipeline): void {
+    this.middleware = middleware;
+  }
+
   async initialize(config?: UnifiedTrackingConfig): Promise<void> {
     if (config) {
       await this.configManager.loadConfig(config);
@@ -37,9 +87,15 @@ export class ProviderManager {
 
     this.logger.info('Initializing ProviderManager');
 
+    // Redeliver persisted events on every queue flush
+    this.eventQueue.addListener(this.deliverQueuedEvents);
+    this.eventQueue.addDrainListener(this.beaconQueuedEvents);
+
     try {
       const config = this.configManager.getConfig();
 
+      this.router.setRules(config.routing);
+
       // Initialize analytics providers
       if (config.analytics?.providers) {
         await this.initializeProviders(config.analytics.providers, 'analytics', config.analytics);
@@ -59,15 +115,35 @@ export class ProviderManager {
   }
 
   private async initializeProviders(providerNames: string[], type: ProviderType, config: any): Promise<void> {
+    // Events raised while SDKs load are queued for these providers too
+    providerNames.forEach((name) => this.loadingProviders.set(name, type));
+
+    const consentRequired = this.configManager.getConfig().settings?.consentRequired === true;
+
     for (const name of providerNames) {
       try {
         const provider = await this.loadProvider(name, type);
         if (provider) {
-          await this.registerProvider(name, provider, config[name] || {});
+          const metadata = await this.getProviderMetadata(name);
+
+          if (consentRequired && !this.hasConsent(provider.type, metadata, this.configManager.getConsent())) {
+            // Nothing is queued for a provider that has no consent yet
+            this.deferredProviders.set(name, { provider, config: config[name] || {}, metadata });
+            this.eventQueue.removeProvider(name);
+            this.logger.info(`Provider ${name} deferred until consent is granted`);
+            continue;
+          }
+
+          await this.registerProvider(name, provider, config[name] || {}, metadata);
+        } else {
+          this.eventQueue.removeProvider(name);
         }
       } catch (error) {
         this.logger.error(`Failed to initialize provider ${name}`, error);
+        this.eventQueue.removeProvider(name);
         // Continue with other providers
+      } finally {
+        this.loadingProviders.delete(name);
       }
     }
   }
@@ -100,7 +176,17 @@ export class ProviderManager {
     }
   }
 
-  async registerProvider(id: string, provider: Provider, config: ProviderConfig): Promise<void> {
+  private async getProviderMetadata(name: string): Promise<ProviderMetadata | undefined> {
+    const { ProviderRegistry } = await import('./registry');
+    return ProviderRegistry.getInstance().getMetadata(name);
+  }
+
+  async registerProvider(
+    id: string,
+    provider: Provider,
+    config: ProviderConfig,
+    metadata?: ProviderMetadata,
+  ): Promise<void> {
     if (this.providers.has(id)) {
       this.logger.warn(`Provider ${id} already registered`);
       return;
@@ -114,11 +200,17 @@ export class ProviderManager {
         provider,
         state: 'active',
         config,
+        metadata,
       };
 
       this.providers.set(id, instance);
       this.logger.info(`Provider ${id} registered successfully`);
 
+      await this.applyFeatureConsent(id, instance, this.configManager.getConsent());
+
+      // Share the anonymous ID before any queued event reaches the provider
+      await this.applyAnonymousId(id, provider);
+
       // Process queued events for this provider
       await this.processQueuedEvents(id, provider);
     } catch (error) {
@@ -128,21 +220,479 @@ export class ProviderManager {
   }
 
   private async processQueuedEvents(providerId: string, provider: Provider): Promise<void> {
-    const events = this.eventQueue.getEventsForProvider(providerId);
+    if (!provider.isReady() || !this.eventQueue.isOnline()) {
+      // Delivered by the next queue flush once the SDK has finished loading
+      return;
+    }
+
+    if (this.getBatchingSettings(providerId, provider)) {
+      await this.flushBatch(providerId);
+      return;
+    }
+
+    const events = this.eventQueue.getEventsToDeliver(providerId);
+
+    for (const event of events) {
+      const delivered = await this.deliverToProvider(event, providerId, provider);
+      if (!delivered) {
+        // Keep the remaining events in order for the next flush
+        break;
+      }
+    }
+  }
+
+  /**
+   * Queue listener that redelivers pending events to every provider able to take them
+   */
+  private deliverQueuedEvents = async (events: QueuedEvent[]): Promise<void> => {
+    if (!this.eventQueue.isOnline()) {
+      return;
+    }
+
+    // A provider that fails is skipped for the rest of the batch to preserve ordering
+    const failedProviders = new Set<string>();
+    const batchedProviders = new Set<string>();
 
     for (const event of events) {
+      for (const providerId of [...(event.pendingProviders || [])]) {
+        // Still being delivered by an earlier call
+        if (failedProviders.has(providerId) || this.eventQueue.isDelivering(event.id, providerId)) {
+          continue;
+        }
+
+        const instance = this.providers.get(providerId);
+        if (!instance) {
+          continue;
+        }
+
+        if (this.getBatchingSettings(providerId, instance.provider)) {
+          batchedProviders.add(providerId);
+          continue;
+        }
+
+        if (!this.canDeliver(providerId, instance)) {
+          failedProviders.add(providerId);
+          continue;
+        }
+
+        const delivered = await this.deliverToProvider(event, providerId, instance.provider);
+        if (!delivered) {
+          failedProviders.add(providerId);
+        }
+      }
+    }
+
+    for (const providerId of batchedProviders) {
+      await this.flushBatchIfDue(providerId);
+    }
+  };
+
+  /**
+   * Whether a delivery may be attempted now: the provider is active and not backing off,
+   * or it is in the 'error' state and due for a probe. Check it last, right before delivering.
+   */
+  private canDeliver(providerId: string, instance: ProviderInstance): boolean {
+    if (!instance.provider.isReady()) {
+      return false;
+    }
+
+    const breaker = this.getBreaker(providerId);
+
+    if (instance.state === 'error') {
+      // Providers put into 'error' by something else than the circuit breaker are not probed
+      return breaker.getState() !== 'closed' && breaker.canAttempt();
+    }
+
+    return instance.state === 'active' && breaker.canAttempt();
+  }
+
+  private getBreaker(providerId: string): CircuitBreaker {
+    let breaker = this.breakers.get(providerId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.configManager.getConfig().settings?.retry);
+      this.breakers.set(providerId, breaker);
+    }
+    return breaker;
+  }
+
+  private handleDeliverySuccess(providerId: string): void {
+    const breaker = this.breakers.get(providerId);
+    const recovering = breaker !== undefined && breaker.getState() !== 'closed';
+    breaker?.recordSuccess();
+
+    const instance = this.providers.get(providerId);
+    if (recovering && instance?.state === 'error') {
+      instance.state = 'active';
+      this.logger.info(`Provider ${providerId} recovered`);
+    }
+  }
+
+  /**
+   * Settle events a provider failed to take. Returns whether the failure is worth retrying;
+   * permanently rejected events are dropped for the provider without affecting its backoff.
+   */
+  private handleDeliveryFailure(events: QueuedEvent[], providerId: string, error: unknown): boolean {
+    if (!isRetryableError(error)) {
+      events.forEach((event) => this.eventQueue.markRejected(event.id, providerId));
+      return false;
+    }
+
+    events.forEach((event) => this.eventQueue.markFailed(event.id, providerId));
+
+    const breaker = this.getBreaker(providerId);
+    breaker.recordFailure();
+
+    if (breaker.getState() === 'open') {
+      this.openCircuit(providerId, breaker);
+    }
+
+    return true;
+  }
+
+  private openCircuit(providerId: string, breaker: CircuitBreaker): void {
+    const instance = this.providers.get(providerId);
+    if (!instance || (instance.state !== 'active' && instance.state !== 'error')) {
+      return;
+    }
+
+    if (instance.state === 'active') {
+      instance.state = 'error';
+      this.logger.warn(`Provider ${providerId} keeps failing; delivery is paused until it recovers`);
+    }
+
+    // Probe without waiting for new events; the events that failed are still pending
+    clearTimeout(this.probeTimers.get(providerId));
+    this.probeTimers.set(
+      providerId,
+      setTimeout(() => {
+        this.probeTimers.delete(providerId);
+        this.deliverQueuedEvents(this.eventQueue.getEventsForProvider(providerId));
+      }, breaker.getRetryDelay()),
+    );
+  }
+
+  /**
+   * Drain listener for when the page is hidden: providers that can build an HTTP request get their
+   * pending events sent with sendBeacon, or a keepalive fetch when the beacon is refused
+   */
+  private beaconQueuedEvents = (events: QueuedEvent[]): void => {
+    for (const [providerId, instance] of this.providers) {
+      const { provider } = instance;
+      const pending = events.filter(
+        (event) => event.pendingProviders?.includes(providerId) && !this.eventQueue.isDelivering(event.id, providerId),
+      );
+
+      // Destination middleware runs asynchronously, so those providers wait for the next launch
+      if (
+        pending.length === 0 ||
+        !provider.getBeaconRequest ||
+        instance.state !== 'active' ||
+        this.middleware?.hasDestination(providerId)
+      ) {
+        continue;
+      }
+
       try {
-        if (provider.type === 'analytics' && 'track' in provider) {
-          const eventData = event.data as { eventName: string; properties?: Record<string, any> };
-          await (provider as AnalyticsProvider).track(eventData.eventName, eventData.properties);
-        } else if (provider.type === 'error-tracking' && 'logError' in provider) {
-          const errorData = event.data as { error: Error | string; context?: ErrorContext };
-          await (provider as ErrorTrackingProvider).logError(errorData.error, errorData.context);
+        const request = provider.getBeaconRequest(
+          pending.map((event) => ({ type: event.type, ...event.data, timestamp: event.timestamp }) as BatchedPayload),
+        );
+        if (!request) {
+          continue;
         }
+
+        if (sendBeacon(request)) {
+          pending.forEach((event) => this.eventQueue.markDelivered(event.id, providerId));
+          continue;
+        }
+
+        // Kept in storage until the fetch succeeds, since the page may be gone before it settles;
+        // marked in flight meanwhile so a flush cannot send the events twice
+        pending.forEach((event) => this.eventQueue.beginDelivery(event.id, providerId));
+        sendKeepalive(request).then((sent) => {
+          pending.forEach((event) => {
+            if (sent) {
+              this.eventQueue.markDelivered(event.id, providerId);
+            }
+            this.eventQueue.endDelivery(event.id, providerId);
+          });
+        });
       } catch (error) {
-        this.logger.error(`Failed to process queued event for ${providerId}`, error);
+        this.logger.error(`Failed to send pending events to provider ${providerId} on page hide`, error);
       }
     }
+  };
+
+  /**
+   * Effective batching settings for a provider, or null when its events are delivered one by one
+   */
+  private getBatchingSettings(providerId: string, provider: Provider): ResolvedBatching | null {
+    const { providers, ...defaults } = this.configManager.getConfig().settings?.batching || { enabled: false };
+    const override = providers?.[providerId];
+    const settings = { ...defaults, ...override };
+
+    // Batching a provider without bulk submission only delays its events, so it must be asked for
+    if (!settings.enabled || (!provider.sendBatch && override?.enabled !== true)) {
+      return null;
+    }
+
+    return {
+      maxSize: Math.max(1, settings.maxSize ?? DEFAULT_BATCH_SIZE),
+      timeout: settings.timeout ?? DEFAULT_BATCH_TIMEOUT,
+      maxBytes: settings.maxBytes,
+    };
+  }
+
+  /**
+   * Flush a provider's batch once it is full, old enough or over its byte budget; otherwise schedule the flush
+   */
+  private async flushBatchIfDue(providerId: string): Promise<void> {
+    const instance = this.providers.get(providerId);
+    const settings = instance && this.getBatchingSettings(providerId, instance.provider);
+    const events = this.eventQueue.getEventsForProvider(providerId);
+    if (!settings || events.length === 0) {
+      return;
+    }
+
+    const age = Date.now() - events[0].timestamp;
+    const due =
+      events.length >= settings.maxSize ||
+      age >= settings.timeout ||
+      (settings.maxBytes !== undefined && this.getBatchBytes(events) >= settings.maxBytes);
+
+    if (due) {
+      await this.flushBatch(providerId);
+    } else if (!this.batchTimers.has(providerId)) {
+      const timer = setTimeout(() => {
+        this.batchTimers.delete(providerId);
+        this.flushBatch(providerId);
+      }, settings.timeout - age);
+      this.batchTimers.set(providerId, timer);
+    }
+  }
+
+  /**
+   * Deliver everything pending for a batched provider, split by size and byte budget
+   */
+  private async flushBatch(providerId: string): Promise<void> {
+    clearTimeout(this.batchTimers.get(providerId));
+    this.batchTimers.delete(providerId);
+
+    const instance = this.providers.get(providerId);
+    const settings = instance && this.getBatchingSettings(providerId, instance.provider);
+    if (!instance || !settings || !this.eventQueue.isOnline() || this.flushingBatches.has(providerId)) {
+      return;
+    }
+
+    // Events raised while a batch is in flight wait for the next flush
+    let pending = this.eventQueue.getEventsToDeliver(providerId);
+
+    // Checked last: letting a half-open circuit's probe through with nothing to send would leave it waiting
+    if (pending.length === 0 || !this.canDeliver(providerId, instance)) {
+      return;
+    }
+
+    this.flushingBatches.add(providerId);
+
+    try {
+      while (pending.length > 0) {
+        const batch = this.takeBatch(pending, settings);
+        if (!(await this.deliverBatch(batch, providerId, instance.provider))) {
+          return;
+        }
+        pending = pending.slice(batch.length);
+      }
+    } finally {
+      this.flushingBatches.delete(providerId);
+    }
+  }
+
+  private takeBatch(events: QueuedEvent[], settings: ResolvedBatching): QueuedEvent[] {
+    const batch: QueuedEvent[] = [];
+    let bytes = 0;
+
+    for (const event of events.slice(0, settings.maxSize)) {
+      bytes += this.getEventBytes(event);
+      // An event over the budget on its own still goes out, alone
+      if (batch.length > 0 && settings.maxBytes !== undefined && bytes > settings.maxBytes) {
+        break;
+      }
+      batch.push(event);
+    }
+
+    return batch;
+  }
+
+  private async deliverBatch(events: QueuedEvent[], providerId: string, provider: Provider): Promise<boolean> {
+    if (!provider.sendBatch) {
+      for (const event of events) {
+        if (!(await this.deliverToProvider(event, providerId, provider))) {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    const claimed = events.filter((event) => this.eventQueue.beginDelivery(event.id, providerId));
+
+    try {
+      const payloads: BatchedPayload[] = [];
+      for (const event of claimed) {
+        const payload = await this.preparePayload(providerId, event);
+        if (payload) {
+          payloads.push({ ...payload, timestamp: event.timestamp });
+        }
+      }
+
+      if (payloads.length > 0) {
+        await provider.sendBatch(payloads);
+      }
+
+      claimed.forEach((event) => this.eventQueue.markDelivered(event.id, providerId));
+      this.handleDeliverySuccess(providerId);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to deliver a batch of ${events.length} events to provider ${providerId}`, error);
+      // Later batches are unaffected by a rejected one
+      return !this.handleDeliveryFailure(claimed, providerId, error);
+    } finally {
+      claimed.forEach((event) => this.eventQueue.endDelivery(event.id, providerId));
+    }
+  }
+
+  private getBatchBytes(events: QueuedEvent[]): number {
+    return events.reduce((total, event) => total + this.getEventBytes(event), 0);
+  }
+
+  private getEventBytes(event: QueuedEvent): number {
+    let size = this.eventSizes.get(event);
+    if (size === undefined) {
+      try {
+        const json = JSON.stringify(event.data) ?? '';
+        size = typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(json).length : json.length;
+      } catch {
+        size = 0;
+      }
+      this.eventSizes.set(event, size);
+    }
+    return size;
+  }
+
+  /**
+   * Deliver one event; false means the provider failed and its later events should wait
+   */
+  private async deliverToProvider(event: QueuedEvent, providerId: string, provider: Provider): Promise<boolean> {
+    if (!this.eventQueue.beginDelivery(event.id, providerId)) {
+      return true;
+    }
+
+    try {
+      await this.dispatchEvent(provider, providerId, event);
+      this.eventQueue.markDelivered(event.id, providerId);
+      this.handleDeliverySuccess(providerId);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to deliver ${event.type} event to provider ${providerId}`, error);
+      // Later events are unaffected by a rejected one
+      return !this.handleDeliveryFailure([event], providerId, error);
+    } finally {
+      this.eventQueue.endDelivery(event.id, providerId);
+    }
+  }
+
+  /**
+   * The event as this destination sees it after its middleware, or null when the middleware dropped it
+   */
+  private async preparePayload(providerId: string, event: QueuedEvent): Promise<TrackingPayload | null> {
+    const payload = { type: event.type, ...event.data } as TrackingPayload;
+    return this.middleware ? this.middleware.runDestination(providerId, payload) : payload;
+  }
+
+  private async dispatchEvent(provider: Provider, providerId: string, event: QueuedEvent): Promise<void> {
+    const payload = await this.preparePayload(providerId, event);
+    if (!payload) {
+      // Dropped for this destination, which counts as handled
+      return;
+    }
+
+    if (payload.type === 'error') {
+      if (provider.type === 'error-tracking') {
+        await (provider as ErrorTrackingProvider).logError(payload.error, payload.context);
+      }
+      return;
+    }
+
+    if (provider.type !== 'analytics') {
+      return;
+    }
+
+    const analytics = provider as AnalyticsProvider;
+
+    switch (payload.type) {
+      case 'track':
+        await analytics.trackEvent(payload.eventName, payload.properties);
+        break;
+      case 'identify':
+        // Stitch pre-login activity to the user before identifying. SDKs that cannot take the shared
+        // anonymous ID alias against their own distinct ID instead.
+        if (payload.previousId && analytics.alias) {
+          await analytics.alias(payload.userId, analytics.setAnonymousId ? payload.previousId : undefined);
+        }
+        await analytics.identifyUser(payload.userId, payload.traits);
+        break;
+      case 'userProperties':
+        await analytics.setUserProperties(payload.properties);
+        break;
+      case 'revenue':
+        await analytics.logRevenue(payload.revenue);
+        break;
+      case 'screenView':
+        await analytics.logScreenView(payload.screenName, payload.properties);
+        break;
+    }
+  }
+
+  /**
+   * Persist an event for every provider of the given type and attempt immediate delivery.
+   * Providers that are offline, loading or failing receive it on a later flush.
+   * The timestamp defaults to now; calls buffered before initialization pass the time they were made.
+   */
+  private async enqueue(
+    type: QueuedEventType,
+    data: Record<string, any>,
+    providerType: ProviderType,
+    timestamp?: number,
+  ): Promise<void> {
+    let targets = this.getDeliveryTargets(providerType);
+
+    // Routing rules apply to tracked events; other calls reach every provider
+    if (type === 'track') {
+      targets = targets.filter((id) => this.router.shouldRoute(id, data.eventName, data.properties));
+    }
+
+    if (targets.length === 0) {
+      return;
+    }
+
+    const event = this.eventQueue.add({ type, data, pendingProviders: targets, timestamp });
+    await this.deliverQueuedEvents([event]);
+  }
+
+  private getDeliveryTargets(type: ProviderType): string[] {
+    const targets: string[] = [];
+
+    for (const [id, instance] of this.providers) {
+      if ((instance.state === 'active' || instance.state === 'error') && instance.provider.type === type) {
+        targets.push(id);
+      }
+    }
+
+    for (const [id, providerType] of this.loadingProviders) {
+      if (providerType === type && !targets.includes(id)) {
+        targets.push(id);
+      }
+    }
+
+    return targets;
   }
 
   async unregisterProvider(id: string): Promise<void> {
@@ -155,6 +705,7 @@ export class ProviderManager {
     try {
       await instance.provider.shutdown();
       this.providers.delete(id);
+      this.eventQueue.removeProvider(id);
       this.logger.info(`Provider ${id} unregistered successfully`);
     } catch (error) {
       this.logger.error(`Failed to unregister provider ${id}`, error);
@@ -188,32 +739,122 @@ export class ProviderManager {
 
     instance.state = state;
 
+    if (state === 'active') {
+      // A provider restored by hand starts without backoff
+      this.breakers.delete(id);
+      clearTimeout(this.probeTimers.get(id));
+      this.probeTimers.delete(id);
+    }
+
     if (state === 'paused') {
       await instance.provider.pause?.();
     } else if (state === 'active') {
       await instance.provider.resume?.();
+      await this.processQueuedEvents(id, instance.provider);
     }
 
     this.logger.info(`Provider ${id} state changed to ${state}`);
   }
 
   async updateConsent(consent: ConsentSettings): Promise<void> {
+    // Categories not mentioned in this update keep their previous value
+    const current = { ...this.configManager.getConsent(), ...consent };
+    const resolved = this.resolveConsent(current);
+
     for (const [id, instance] of this.providers) {
       try {
-        await instance.provider.updateConsent(consent);
+        await instance.provider.updateConsent(resolved);
 
-        // Update provider state based on consent
-        if (consent.analytics === false && instance.provider.type === 'analytics') {
-          instance.state = 'disabled';
-        } else if (consent.errorTracking === false && instance.provider.type === 'error-tracking') {
+        // Update provider state based on consent; queued events are never delivered without it
+        if (!this.hasConsent(instance.provider.type, instance.metadata, current)) {
           instance.state = 'disabled';
+          this.eventQueue.removeProvider(id);
         } else if (instance.state === 'disabled') {
           instance.state = 'active';
         }
+
+        await this.applyFeatureConsent(id, instance, current);
       } catch (error) {
         this.logger.error(`Failed to update consent for provider ${id}`, error);
       }
     }
+
+    await this.loadDeferredProviders(current);
+  }
+
+  /**
+   * Consent categories required by a provider, declared in its metadata or derived from its type
+   */
+  getConsentCategories(type: ProviderType, metadata?: ProviderMetadata): string[] {
+    return metadata?.consentCategories ?? [type === 'analytics' ? 'analytics' : 'errorTracking'];
+  }
+
+  /**
+   * The full consent passed to providers. In consentRequired mode categories the user has not
+   * granted are spelled out as denied, since providers treat a missing category as granted.
+   */
+  private resolveConsent(consent: ConsentSettings): ConsentSettings {
+    if (!this.configManager.getConfig().settings?.consentRequired) {
+      return consent;
+    }
+    return { analytics: false, errorTracking: false, marketing: false, personalization: false, ...consent };
+  }
+
+  private hasConsent(type: ProviderType, metadata: ProviderMetadata | undefined, consent: ConsentSettings): boolean {
+    return this.getConsentCategories(type, metadata).every((category) => this.isGranted(consent, category));
+  }
+
+  /**
+   * In consentRequired mode a category must be granted explicitly; otherwise only an explicit denial counts
+   */
+  private isGranted(consent: ConsentSettings, category: string): boolean {
+    if (this.configManager.getConfig().settings?.consentRequired) {
+      return consent[category] === true;
+    }
+    return consent[category] !== false;
+  }
+
+  private async applyFeatureConsent(id: string, instance: ProviderInstance, consent: ConsentSettings): Promise<void> {
+    const featureConsent = instance.metadata?.featureConsent;
+    if (!featureConsent || !instance.provider.updateFeatureConsent) {
+      return;
+    }
+
+    const features: Record<string, boolean> = {};
+    for (const [feature, categories] of Object.entries(featureConsent)) {
+      features[feature] = categories.every((category) => this.isGranted(consent, category));
+    }
+
+    try {
+      await instance.provider.updateFeatureConsent(features);
+    } catch (error) {
+      this.logger.error(`Failed to update feature consent for provider ${id}`, error);
+    }
+  }
+
+  private async loadDeferredProviders(consent: ConsentSettings): Promise<void> {
+    for (const [id, deferred] of this.deferredProviders) {
+      if (!this.hasConsent(deferred.provider.type, deferred.metadata, consent)) {
+        continue;
+      }
+
+      this.deferredProviders.delete(id);
+
+      try {
+        await this.registerProvider(id, deferred.provider, deferred.config, deferred.metadata);
+        // The SDK's own defaults may grant more than the user has
+        await deferred.provider.updateConsent(this.resolveConsent(consent));
+      } catch (error) {
+        this.logger.error(`Failed to initialize provider ${id} after consent`, error);
+      }
+    }
+  }
+
+  /**
+   * IDs of providers waiting for consent before loading
+   */
+  getDeferredProviders(): string[] {
+    return Array.from(this.deferredProviders.keys());
   }
 
   async shutdown(): Promise<void> {
@@ -230,12 +871,31 @@ export class ProviderManager {
     }
 
     await Promise.all(shutdownPromises);
+    this.batchTimers.forEach((timer) => clearTimeout(timer));
+    this.batchTimers.clear();
+    this.probeTimers.forEach((timer) => clearTimeout(timer));
+    this.probeTimers.clear();
+    this.breakers.clear();
     this.providers.clear();
+    this.deferredProviders.clear();
+    this.eventQueue.removeListener(this.deliverQueuedEvents);
+    this.eventQueue.removeDrainListener(this.beaconQueuedEvents);
     this.initialized = false;
 
     this.logger.info('ProviderManager shutdown complete');
   }
 
+  /**
+   * Deliver the pending events of every batched provider now, whatever their size or age
+   */
+  async flushBatches(): Promise<void> {
+    for (const [id, instance] of this.providers) {
+      if (instance.state === 'active' && this.getBatchingSettings(id, instance.provider)) {
+        await this.flushBatch(id);
+      }
+    }
+  }
+
   isInitialized(): boolean {
     return this.initialized;
   }
@@ -250,76 +910,62 @@ export class ProviderManager {
     return states;
   }
 
-  async trackEvent(eventName: string, properties?: Record<string, any>): Promise<void> {
-    const analyticsProviders = this.getActiveProviders('analytics') as AnalyticsProvider[];
-
-    const promises = analyticsProviders.map((provider) =>
-      provider.trackEvent(eventName, properties).catch((error) => {
-        this.logger.error(`Failed to track event with provider ${provider.id}`, error);
-      }),
-    );
-
-    await Promise.all(promises);
+  async trackEvent(eventName: string, properties?: Record<string, any>, timestamp?: number): Promise<void> {
+    await this.enqueue('track', { eventName, properties }, 'analytics', timestamp);
   }
 
-  async identifyUser(userId: string, traits?: Record<string, any>): Promise<void> {
-    const analyticsProviders = this.getActiveProviders('analytics') as AnalyticsProvider[];
-
-    const promises = analyticsProviders.map((provider) =>
-      provider.identifyUser(userId, traits).catch((error) => {
-        this.logger.error(`Failed to identify user with provider ${provider.id}`, error);
-      }),
-    );
-
-    await Promise.all(promises);
+  /**
+   * Identify the user; when previousId is given, providers that support it alias the two IDs first
+   */
+  async identifyUser(
+    userId: string,
+    traits?: Record<string, any>,
+    previousId?: string,
+    timestamp?: number,
+  ): Promise<void> {
+    await this.enqueue('identify', { userId, traits, previousId }, 'analytics', timestamp);
   }
 
-  async setUserProperties(properties: Record<string, any>): Promise<void> {
-    const analyticsProviders = this.getActiveProviders('analytics') as AnalyticsProvider[];
-
-    const promises = analyticsProviders.map((provider) =>
-      provider.setUserProperties(properties).catch((error) => {
-        this.logger.error(`Failed to set user properties with provider ${provider.id}`, error);
-      }),
-    );
+  /**
+   * Set the anonymous ID shared by all providers, including ones registered later
+   */
+  async setAnonymousId(anonymousId: string): Promise<void> {
+    this.anonymousId = anonymousId;
 
-    await Promise.all(promises);
+    for (const [id, instance] of this.providers) {
+      if (instance.state === 'active') {
+        await this.applyAnonymousId(id, instance.provider);
+      }
+    }
   }
 
-  async logError(error: Error | string, context?: ErrorContext): Promise<void> {
-    const errorProviders = this.getActiveProviders('error-tracking') as ErrorTrackingProvider[];
-
-    const promises = errorProviders.map((provider) =>
-      provider.logError(error, context).catch((err) => {
-        this.logger.error(`Failed to log error with provider ${provider.id}`, err);
-      }),
-    );
+  private async applyAnonymousId(id: string, provider: Provider): Promise<void> {
+    const analytics = provider as AnalyticsProvider;
+    if (!this.anonymousId || provider.type !== 'analytics' || !analytics.setAnonymousId) {
+      return;
+    }
 
-    await Promise.all(promises);
+    try {
+      await analytics.setAnonymousId(this.anonymousId);
+    } catch (error) {
+      this.logger.error(`Failed to set anonymous ID for provider ${id}`, error);
+    }
   }
 
-  async logRevenue(revenue: RevenueData): Promise<void> {
-    const analyticsProviders = this.getActiveProviders('analytics') as AnalyticsProvider[];
-
-    const promises = analyticsProviders.map((provider) =>
-      provider.logRevenue(revenue).catch((error) => {
-        this.logger.error(`Failed to log revenue with provider ${provider.id}`, error);
-      }),
-    );
-
-    await Promise.all(promises);
+  async setUserProperties(properties: Record<string, any>, timestamp?: number): Promise<void> {
+    await this.enqueue('userProperties', { properties }, 'analytics', timestamp);
   }
 
-  async logScreenView(screenName: string, properties?: Record<string, any>): Promise<void> {
-    const analyticsProviders = this.getActiveProviders('analytics') as AnalyticsProvider[];
+  async logError(error: Error | string, context?: ErrorContext, timestamp?: number): Promise<void> {
+    await this.enqueue('error', { error, context }, 'error-tracking', timestamp);
+  }
 
-    const promises = analyticsProviders.map((provider) =>
-      provider.logScreenView(screenName, properties).catch((error) => {
-        this.logger.error(`Failed to log screen view with provider ${provider.id}`, error);
-      }),
-    );
+  async logRevenue(revenue: RevenueData, timestamp?: number): Promise<void> {
+    await this.enqueue('revenue', { revenue }, 'analytics', timestamp);
+  }
 
-    await Promise.all(promises);
+  async logScreenView(screenName: string, properties?: Record<string, any>, timestamp?: number): Promise<void> {
+    await this.enqueue('screenView', { screenName, properties }, 'analytics', timestamp);
   }
 
   async handleConsentChange(consent: ConsentSettings): Promise<void> {
@@ -338,6 +984,25 @@ export class ProviderManager {
     }
   }
 
+  /**
+   * Run each provider's opt-out/delete hook, falling back to reset, and drop undelivered events
+   */
+  async forgetUser(): Promise<void> {
+    this.eventQueue.clear();
+
+    for (const [id, instance] of this.providers) {
+      try {
+        if (instance.provider.forgetUser) {
+          await instance.provider.forgetUser();
+        } else if ('reset' in instance.provider) {
+          await (instance.provider as any).reset();
+        }
+      } catch (error) {
+        this.logger.error(`Failed to forget user in provider ${id}`, error);
+      }
+    }
+  }
+
   setDebugMode(enabled: boolean): void {
     this.logger.setDebugMode(enabled);
 
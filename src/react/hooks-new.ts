@@ -1,4 +1,4 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { getUnifiedTracking } from '../core/unified-tracking-core';
 
 const UnifiedTracking = getUnifiedTracking();
@@ -12,6 +12,7 @@ export const useUnifiedTracking = () => {
     logError: UnifiedTracking.logError.bind(UnifiedTracking),
     logRevenue: UnifiedTracking.logRevenue.bind(UnifiedTracking),
     logScreenView: UnifiedTracking.logScreenView.bind(UnifiedTracking),
+    time: UnifiedTracking.time.bind(UnifiedTracking),
     setConsent: UnifiedTracking.setConsent.bind(UnifiedTracking),
     reset: UnifiedTracking.reset.bind(UnifiedTracking),
     getActiveProviders: UnifiedTracking.getActiveProviders.bind(UnifiedTracking),
@@ -40,3 +41,46 @@ export const useTrackEvent = () => {
 
   return { trackEvent, isTracking, lastError };
 };
+
+// Hook for timing an event; end() tracks it with duration_ms. A timer the hook started is
+// cancelled on unmount unless end() or cancel() was called.
+export const useTimedEvent = (eventName: string, options: { startOnMount?: boolean } = {}) => {
+  const { startOnMount = true } = options;
+  const timing = useRef(false);
+
+  useEffect(() => {
+    if (!startOnMount) {
+      return;
+    }
+
+    UnifiedTracking.time(eventName);
+    timing.current = true;
+
+    return () => {
+      if (timing.current) {
+        timing.current = false;
+        UnifiedTracking.cancelTimedEvent(eventName);
+      }
+    };
+  }, [eventName, startOnMount]);
+
+  const start = useCallback(() => {
+    timing.current = true;
+    return UnifiedTracking.time(eventName);
+  }, [eventName]);
+
+  const end = useCallback(
+    (properties?: Record<string, unknown>) => {
+      timing.current = false;
+      return UnifiedTracking.track(eventName, properties);
+    },
+    [eventName],
+  );
+
+  const cancel = useCallback(() => {
+    timing.current = false;
+    return UnifiedTracking.cancelTimedEvent(eventName);
+  }, [eventName]);
+
+  return { start, end, cancel };
+};
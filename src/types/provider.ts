@@ -1,3 +1,5 @@
+import type { BatchedPayload, BeaconRequest } from '../definitions';
+
 export type ProviderType = 'analytics' | 'error-tracking';
 
 export type ProviderState = 'active' | 'paused' | 'disabled' | 'error';
@@ -34,6 +36,27 @@ export interface Provider {
   pause?(): Promise<void>;
   resume?(): Promise<void>;
 
+  /**
+   * Turn optional features on or off based on the consent declared in ProviderMetadata.featureConsent
+   */
+  updateFeatureConsent?(features: Record<string, boolean>): Promise<void>;
+
+  /**
+   * Opt the user out and delete the data the SDK holds about them
+   */
+  forgetUser?(): Promise<void>;
+
+  /**
+   * Send several queued events in one request; providers that implement it receive batches
+   */
+  sendBatch?(payloads: BatchedPayload[]): Promise<void>;
+
+  /**
+   * Build an HTTP request that delivers the events without the SDK, used when the page is being hidden
+   * or unloaded. Return null when the events cannot be sent this way; they stay queued for the next launch.
+   */
+  getBeaconRequest?(payloads: BatchedPayload[]): BeaconRequest | null;
+
   isReady(): boolean;
   getConfig(): ProviderConfig;
 }
@@ -45,4 +68,15 @@ export interface ProviderMetadata {
   version: string;
   supportedPlatforms: Array<'web' | 'ios' | 'android'>;
   configSchema?: Record<string, any>;
+
+  /**
+   * Consent categories that must all be granted for the provider to run.
+   * Defaults to 'analytics' or 'errorTracking' based on the provider type.
+   */
+  consentCategories?: string[];
+
+  /**
+   * Consent categories required by optional features, keyed by feature name
+   */
+  featureConsent?: Record<string, string[]>;
 }
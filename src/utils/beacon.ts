@@ -0,0 +1,38 @@
+import type { BeaconRequest } from '../definitions';
+
+/**
+ * Queue the request with navigator.sendBeacon, which outlives the page. Returns whether the browser
+ * accepted it; requests with custom headers are never beaconed.
+ */
+export function sendBeacon(request: BeaconRequest): boolean {
+  if (request.headers || typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+    return false;
+  }
+
+  try {
+    return navigator.sendBeacon(request.url, new Blob([request.body], { type: request.contentType || 'text/plain' }));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Send the request with a keepalive fetch, which also survives unload but reports its result asynchronously
+ */
+export async function sendKeepalive(request: BeaconRequest): Promise<boolean> {
+  if (typeof fetch !== 'function') {
+    return false;
+  }
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      body: request.body,
+      keepalive: true,
+      headers: { 'Content-Type': request.contentType || 'text/plain', ...request.headers },
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
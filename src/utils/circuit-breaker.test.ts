@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { CircuitBreaker, isRetryableError } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should back off exponentially with jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const breaker = new CircuitBreaker({ baseDelay: 1000, maxDelay: 3000, failureThreshold: 10 });
+
+    breaker.recordFailure(0);
+    expect(breaker.getRetryDelay(0)).toBe(1000);
+    expect(breaker.canAttempt(999)).toBe(false);
+    expect(breaker.canAttempt(1000)).toBe(true);
+
+    breaker.recordFailure(0);
+    expect(breaker.getRetryDelay(0)).toBe(2000);
+
+    breaker.recordFailure(0);
+    expect(breaker.getRetryDelay(0)).toBe(3000);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    breaker.recordFailure(0);
+    expect(breaker.getRetryDelay(0)).toBe(1500);
+  });
+
+  it('should open after repeated failures and let one probe through after the reset timeout', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 30000 });
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canAttempt(29999)).toBe(false);
+
+    expect(breaker.canAttempt(30000)).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canAttempt(30000)).toBe(false);
+
+    breaker.recordFailure(30000);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getRetryDelay(30000)).toBe(30000);
+
+    expect(breaker.canAttempt(60000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canAttempt(60000)).toBe(true);
+  });
+
+  it('should let another probe through when the last one never reported back', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 30000 });
+
+    breaker.recordFailure(0);
+    expect(breaker.canAttempt(30000)).toBe(true);
+    expect(breaker.canAttempt(59999)).toBe(false);
+    expect(breaker.canAttempt(60000)).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should classify failures by status code and explicit flag', () => {
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Unavailable'), { status: 503 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Too many requests'), { statusCode: 429 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Timeout'), { status: 408 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('Bad request'), { status: 400 }))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('Unauthorized'), { status: 401 }))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('Invalid payload'), { retryable: false }))).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import type { RetrySettings } from '../definitions';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 60000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT = 30000;
+
+/**
+ * Retry state of one provider. Failures push the next attempt back exponentially with jitter;
+ * enough consecutive failures open the circuit until a probe is allowed after resetTimeout.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private nextAttemptAt = 0;
+  private baseDelay: number;
+  private maxDelay: number;
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(settings: RetrySettings = {}) {
+    this.baseDelay = settings.baseDelay ?? DEFAULT_BASE_DELAY;
+    this.maxDelay = settings.maxDelay ?? DEFAULT_MAX_DELAY;
+    this.failureThreshold = Math.max(1, settings.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+    this.resetTimeout = settings.resetTimeout ?? DEFAULT_RESET_TIMEOUT;
+  }
+
+  /**
+   * Whether a delivery may be attempted now. An open circuit lets a single probe through once resetTimeout has passed,
+   * and another one each resetTimeout after that until a result is recorded.
+   */
+  canAttempt(now = Date.now()): boolean {
+    if (now < this.nextAttemptAt) {
+      return false;
+    }
+
+    if (this.state !== 'closed') {
+      // The rest wait for the probe's result, but a probe that never reports back does not block the circuit
+      this.state = 'half-open';
+      this.nextAttemptAt = now + this.resetTimeout;
+    }
+
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.nextAttemptAt = 0;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures += 1;
+
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.nextAttemptAt = now + this.resetTimeout;
+    } else {
+      this.nextAttemptAt = now + this.getBackoffDelay();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Milliseconds until the next attempt is allowed
+   */
+  getRetryDelay(now = Date.now()): number {
+    return Math.max(0, this.nextAttemptAt - now);
+  }
+
+  /**
+   * Exponential delay for the current failure count, randomized between half and the full value
+   */
+  private getBackoffDelay(): number {
+    const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** (this.failures - 1));
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+}
+
+/**
+ * Whether a delivery failure may succeed on retry. Network errors, timeouts, rate limits and
+ * server errors are retryable; other 4xx responses and errors flagged `retryable: false` are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return true;
+  }
+
+  const { retryable, status, statusCode } = error as { retryable?: boolean; status?: unknown; statusCode?: unknown };
+  if (typeof retryable === 'boolean') {
+    return retryable;
+  }
+
+  const code = typeof status === 'number' ? status : typeof statusCode === 'number' ? statusCode : undefined;
+  if (code === undefined) {
+    return true;
+  }
+
+  return code === 408 || code === 429 || code >= 500 || code < 400;
+}
@@ -1,14 +1,17 @@
 import type { UnifiedTrackingConfig, ConsentSettings } from '../definitions';
 
+const DEFAULT_CONSENT: ConsentSettings = {
+  analytics: true,
+  errorTracking: true,
+  marketing: true,
+  personalization: true,
+};
+
 export class ConfigManager {
   private static instance: ConfigManager;
   private config: UnifiedTrackingConfig = {};
-  private consent: ConsentSettings = {
-    analytics: true,
-    errorTracking: true,
-    marketing: true,
-    personalization: true,
-  };
+  private consent: ConsentSettings = { ...DEFAULT_CONSENT };
+  private consentUpdated = false;
 
   private constructor() {}
 
@@ -31,9 +34,9 @@ export class ConfigManager {
       await this.autoDetectProviders();
     }
 
-    // Apply consent settings
-    if (this.config.settings?.defaultConsent) {
-      this.consent = { ...this.consent, ...this.config.settings.defaultConsent };
+    // Defaults only apply until consent is set by the app or restored from storage
+    if (!this.consentUpdated) {
+      this.applyDefaultConsent();
     }
 
     return this.config;
@@ -49,6 +52,28 @@ export class ConfigManager {
 
   setConsent(consent: ConsentSettings): void {
     this.consent = { ...this.consent, ...consent };
+    this.consentUpdated = true;
+  }
+
+  /**
+   * Drop consent set by the app or restored from storage and return to the configured defaults
+   */
+  resetConsent(): void {
+    this.consent = { ...DEFAULT_CONSENT };
+    this.consentUpdated = false;
+    this.applyDefaultConsent();
+  }
+
+  private applyDefaultConsent(): void {
+    // Nothing is granted up front when consent is required
+    if (this.config.settings?.consentRequired) {
+      this.consent = {};
+    }
+
+    // Apply consent settings
+    if (this.config.settings?.defaultConsent) {
+      this.consent = { ...this.consent, ...this.config.settings.defaultConsent };
+    }
   }
 
   private getDefaultConfig(): UnifiedTrackingConfig {
@@ -62,8 +87,18 @@ export class ConfigManager {
       settings: {
         debug: false,
         sessionTimeout: 30 * 60 * 1000, // 30 minutes
+        session: {
+          enabled: true,
+          trackSessionEvents: true,
+        },
         autoTrackScreens: true,
         autoTrackErrors: true,
+        breadcrumbs: {
+          enabled: true,
+          maxBreadcrumbs: 100,
+        },
+        queueStorage: 'auto',
+        tabCoordination: true,
         batching: {
           enabled: true,
           maxSize: 20,
@@ -72,6 +107,12 @@ export class ConfigManager {
         privacy: {
           anonymizeIp: true,
           dataRetentionDays: 90,
+          redactPii: true,
+        },
+        preInitBuffer: {
+          enabled: true,
+          maxSize: 100,
+          dropPolicy: 'drop-oldest',
         },
       },
       autoDetect: true,
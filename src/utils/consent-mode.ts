@@ -0,0 +1,39 @@
+import type { ConsentSettings } from '../types/provider';
+
+export type ConsentModeStatus = 'granted' | 'denied';
+
+/**
+ * Google Consent Mode v2 parameters as passed to gtag('consent', ...)
+ */
+export interface ConsentModeParameters {
+  analytics_storage: ConsentModeStatus;
+  ad_storage: ConsentModeStatus;
+  ad_user_data: ConsentModeStatus;
+  ad_personalization: ConsentModeStatus;
+  personalization_storage: ConsentModeStatus;
+  functionality_storage: ConsentModeStatus;
+  security_storage: ConsentModeStatus;
+}
+
+const status = (granted: boolean): ConsentModeStatus => (granted ? 'granted' : 'denied');
+
+/**
+ * Translate consent categories into Consent Mode v2 parameters. Only an explicit denial
+ * counts as denied; callers in consentRequired mode fill in missing categories as denied.
+ * Functionality and security storage are not gated by any consent category.
+ */
+export function toConsentModeParameters(consent: ConsentSettings): ConsentModeParameters {
+  const analytics = consent.analytics !== false;
+  const marketing = consent.marketing !== false;
+  const personalization = consent.personalization !== false;
+
+  return {
+    analytics_storage: status(analytics),
+    ad_storage: status(marketing),
+    ad_user_data: status(marketing),
+    ad_personalization: status(marketing && personalization),
+    personalization_storage: status(personalization),
+    functionality_storage: 'granted',
+    security_storage: 'granted',
+  };
+}
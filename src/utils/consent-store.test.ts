@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ConsentStore } from './consent-store';
+
+describe('ConsentStore', () => {
+  beforeEach(() => {
+    (ConsentStore as any).instance = undefined;
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).Capacitor;
+  });
+
+  it('should persist the consent record', async () => {
+    const store = ConsentStore.getInstance();
+    const record = { consent: { analytics: true }, policyVersion: '2', updatedAt: '2025-01-01T00:00:00.000Z' };
+
+    await store.save(record);
+
+    expect(localStorage.setItem).toHaveBeenCalledWith('unified_tracking_consent', JSON.stringify(record));
+  });
+
+  it('should append to the persisted audit log', async () => {
+    const existing = {
+      timestamp: '2025-01-01T00:00:00.000Z',
+      changes: { analytics: true },
+      consent: { analytics: true },
+    };
+    vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify([existing]));
+    const store = ConsentStore.getInstance();
+    const entry = {
+      timestamp: '2025-02-01T00:00:00.000Z',
+      changes: { marketing: false },
+      consent: { marketing: false },
+    };
+
+    await store.append(entry);
+
+    expect(await store.getAuditLog()).toEqual([existing, entry]);
+    expect(localStorage.setItem).toHaveBeenCalledWith(
+      'unified_tracking_consent_log',
+      JSON.stringify([existing, entry]),
+    );
+  });
+
+  it('should use Capacitor Preferences when available', async () => {
+    const record = { consent: { analytics: false }, updatedAt: '2025-01-01T00:00:00.000Z' };
+    const preferences = {
+      get: vi.fn().mockResolvedValue({ value: JSON.stringify(record) }),
+      set: vi.fn().mockResolvedValue(undefined),
+    };
+    (globalThis as any).Capacitor = { Plugins: { Preferences: preferences } };
+    const store = ConsentStore.getInstance();
+
+    expect(await store.load()).toEqual(record);
+
+    await store.save(record);
+    expect(preferences.set).toHaveBeenCalledWith({ key: 'unified_tracking_consent', value: JSON.stringify(record) });
+  });
+});
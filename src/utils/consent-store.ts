@@ -0,0 +1,103 @@
+import type { ConsentAuditEntry, ConsentRecord } from '../definitions';
+
+interface PreferencesPlugin {
+  get(options: { key: string }): Promise<{ value: string | null }>;
+  set(options: { key: string; value: string }): Promise<void>;
+  remove(options: { key: string }): Promise<void>;
+}
+
+const CONSENT_KEY = 'unified_tracking_consent';
+const AUDIT_LOG_KEY = 'unified_tracking_consent_log';
+
+/**
+ * Persists consent and its audit log in localStorage, and also in Capacitor Preferences
+ * when the app has that plugin installed, since the OS may clear web view storage.
+ */
+export class ConsentStore {
+  private static instance: ConsentStore;
+  private auditLog: ConsentAuditEntry[] | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ConsentStore {
+    if (!ConsentStore.instance) {
+      ConsentStore.instance = new ConsentStore();
+    }
+    return ConsentStore.instance;
+  }
+
+  async load(): Promise<ConsentRecord | null> {
+    return this.read<ConsentRecord>(CONSENT_KEY);
+  }
+
+  async save(record: ConsentRecord): Promise<void> {
+    await this.write(CONSENT_KEY, record);
+  }
+
+  /**
+   * Append an entry to the audit log; entries are never modified, only erased with clear()
+   */
+  async append(entry: ConsentAuditEntry): Promise<void> {
+    const log = await this.getAuditLog();
+    this.auditLog = [...log, entry];
+    await this.write(AUDIT_LOG_KEY, this.auditLog);
+  }
+
+  async getAuditLog(): Promise<ConsentAuditEntry[]> {
+    if (!this.auditLog) {
+      this.auditLog = (await this.read<ConsentAuditEntry[]>(AUDIT_LOG_KEY)) || [];
+    }
+    return [...this.auditLog];
+  }
+
+  /**
+   * Erase the consent record and its audit log
+   */
+  async clear(): Promise<void> {
+    this.auditLog = null;
+
+    for (const key of [CONSENT_KEY, AUDIT_LOG_KEY]) {
+      try {
+        if (typeof localStorage !== 'undefined') {
+          localStorage.removeItem(key);
+        }
+        await this.getPreferences()?.remove({ key });
+      } catch {
+        // Ignore storage errors
+      }
+    }
+  }
+
+  private getPreferences(): PreferencesPlugin | undefined {
+    return (globalThis as any).Capacitor?.Plugins?.Preferences;
+  }
+
+  private async read<T>(key: string): Promise<T | null> {
+    try {
+      const preferences = this.getPreferences();
+      const stored = preferences
+        ? (await preferences.get({ key })).value
+        : typeof localStorage !== 'undefined'
+          ? localStorage.getItem(key)
+          : null;
+
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      // Ignore storage errors
+      return null;
+    }
+  }
+
+  private async write(key: string, value: unknown): Promise<void> {
+    const serialized = JSON.stringify(value);
+
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(key, serialized);
+      }
+      await this.getPreferences()?.set({ key, value: serialized });
+    } catch {
+      // Ignore storage errors
+    }
+  }
+}
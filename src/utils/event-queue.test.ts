@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventQueue } from './event-queue';
+import { MemoryQueueStorage } from './queue-storage';
+
+describe('EventQueue', () => {
+  let queue: EventQueue;
+
+  beforeEach(() => {
+    vi.mocked(localStorage.getItem).mockReset();
+    vi.mocked(localStorage.setItem).mockReset();
+    (EventQueue as any).instance = undefined;
+    queue = EventQueue.getInstance();
+  });
+
+  describe('per-provider delivery', () => {
+    it('should keep an event until every provider has received it', () => {
+      const event = queue.add({ type: 'track', data: { eventName: 'test' }, pendingProviders: ['a', 'b'] });
+
+      queue.markDelivered(event.id, 'a');
+      expect(queue.getQueueSize()).toBe(1);
+      expect(queue.getEventsForProvider('a')).toHaveLength(0);
+      expect(queue.getEventsForProvider('b')).toHaveLength(1);
+
+      queue.markDelivered(event.id, 'b');
+      expect(queue.getQueueSize()).toBe(0);
+    });
+
+    it('should give up on a provider after max retries', () => {
+      const event = queue.add({ type: 'track', data: { eventName: 'test' }, pendingProviders: ['a'] });
+
+      for (let i = 0; i < 3; i++) {
+        queue.markFailed(event.id, 'a');
+      }
+      expect(queue.getQueueSize()).toBe(1);
+
+      queue.markFailed(event.id, 'a');
+      expect(queue.getQueueSize()).toBe(0);
+    });
+
+    it('should drop events when their only provider is removed', () => {
+      queue.add({ type: 'track', data: { eventName: 'one' }, pendingProviders: ['a'] });
+      queue.add({ type: 'track', data: { eventName: 'two' }, pendingProviders: ['a', 'b'] });
+
+      queue.removeProvider('a');
+
+      expect(queue.getQueueSize()).toBe(1);
+      expect(queue.getEventsForProvider('b')).toHaveLength(1);
+    });
+  });
+
+  describe('flush', () => {
+    it('should hand targeted events to listeners without settling them', async () => {
+      const listener = vi.fn().mockResolvedValue(undefined);
+      queue.addListener(listener);
+      queue.add({ type: 'track', data: { eventName: 'test' }, pendingProviders: ['a'] });
+
+      await queue.flush();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(queue.getQueueSize()).toBe(1);
+    });
+
+    it('should remove untargeted events once all listeners succeed', async () => {
+      queue.addListener(vi.fn().mockResolvedValue(undefined));
+      queue.add({ type: 'track', data: { eventName: 'test' } });
+
+      await queue.flush();
+
+      expect(queue.getQueueSize()).toBe(0);
+    });
+
+    it('should not flush while offline', async () => {
+      const listener = vi.fn().mockResolvedValue(undefined);
+      queue.addListener(listener);
+      queue.add({ type: 'track', data: { eventName: 'test' } });
+
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      await queue.flush();
+      onLine.mockRestore();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(queue.getQueueSize()).toBe(1);
+    });
+  });
+
+  describe('untargeted events', () => {
+    it('should only retry the listeners that failed', async () => {
+      const ok = vi.fn().mockResolvedValue(undefined);
+      const failing = vi.fn().mockRejectedValueOnce(new Error('Offline')).mockResolvedValue(undefined);
+      queue.addListener(ok);
+      queue.addListener(failing);
+      queue.add({ type: 'track', data: { eventName: 'test' } });
+
+      await queue.flush();
+      expect(queue.getQueueSize()).toBe(1);
+
+      await queue.flush();
+
+      expect(ok).toHaveBeenCalledTimes(1);
+      expect(failing).toHaveBeenCalledTimes(2);
+      expect(queue.getQueueSize()).toBe(0);
+    });
+  });
+
+  describe('in-flight deliveries', () => {
+    it('should let one delivery per event and provider run at a time', async () => {
+      const event = queue.add({ type: 'track', data: { eventName: 'test' }, pendingProviders: ['a', 'b'] });
+      const settled = vi.fn();
+
+      expect(queue.beginDelivery(event.id, 'a')).toBe(true);
+      expect(queue.beginDelivery(event.id, 'a')).toBe(false);
+      expect(queue.getEventsToDeliver('a')).toEqual([]);
+      expect(queue.getEventsToDeliver('b')).toEqual([event]);
+      queue.whenDeliveriesSettled().then(settled);
+
+      queue.endDelivery(event.id, 'a');
+      await Promise.resolve();
+
+      expect(settled).toHaveBeenCalled();
+      expect(queue.isDelivering(event.id)).toBe(false);
+      expect(queue.beginDelivery(event.id, 'a')).toBe(true);
+    });
+  });
+
+  describe('page hide', () => {
+    afterEach(() => {
+      queue.stop();
+      delete (globalThis as any).Capacitor;
+    });
+
+    it('should hand queued events to drain listeners when the page is hidden or unloaded', () => {
+      const drain = vi.fn();
+      queue.addDrainListener(drain);
+      queue.start();
+      const event = queue.add({ type: 'track', data: { eventName: 'last' }, pendingProviders: ['a'] });
+
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+      window.dispatchEvent(new Event('pagehide'));
+      Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+
+      expect(drain).toHaveBeenCalledTimes(2);
+      expect(drain).toHaveBeenCalledWith([event]);
+    });
+
+    it('should drain when the Capacitor app is paused', async () => {
+      let onPause: (() => void) | undefined;
+      (globalThis as any).Capacitor = {
+        Plugins: {
+          App: {
+            addListener: vi.fn(async (_event: string, listener: () => void) => {
+              onPause = listener;
+              return { remove: vi.fn() };
+            }),
+          },
+        },
+      };
+      const drain = vi.fn();
+      queue.addDrainListener(drain);
+      queue.start();
+      queue.add({ type: 'track', data: { eventName: 'backgrounded' }, pendingProviders: ['a'] });
+
+      onPause!();
+
+      expect(drain).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore queued errors as Error instances', async () => {
+      await queue.setStorage('localStorage');
+      const error = new Error('Boom');
+      queue.add({ type: 'error', data: { error }, pendingProviders: ['sentry'] });
+      await queue.whenPersisted();
+
+      const stored = vi.mocked(localStorage.setItem).mock.calls.at(-1)![1];
+      vi.mocked(localStorage.getItem).mockReturnValue(stored);
+      (EventQueue as any).instance = undefined;
+
+      const restoredQueue = EventQueue.getInstance();
+      await restoredQueue.setStorage('localStorage');
+
+      const [restored] = restoredQueue.getEventsForProvider('sentry');
+      expect(restored.data.error).toBeInstanceOf(Error);
+      expect(restored.data.error.message).toBe('Boom');
+    });
+
+    it('should write events added before the storage was chosen', async () => {
+      const storage = new MemoryQueueStorage();
+      const event = queue.add({ type: 'track', data: { eventName: 'early' }, pendingProviders: ['a'] });
+
+      await queue.setStorage(storage);
+
+      expect((await storage.load()).map((stored) => stored.id)).toEqual([event.id]);
+    });
+
+    it('should remove delivered events from storage', async () => {
+      const storage = new MemoryQueueStorage();
+      await queue.setStorage(storage);
+
+      const event = queue.add({ type: 'track', data: { eventName: 'test' }, pendingProviders: ['a', 'b'] });
+      queue.markDelivered(event.id, 'a');
+      await queue.whenPersisted();
+      expect((await storage.load())[0].pendingProviders).toEqual(['b']);
+
+      queue.markDelivered(event.id, 'b');
+      await queue.whenPersisted();
+      expect(await storage.load()).toEqual([]);
+    });
+
+    it('should move events from the original localStorage key into the new storage', async () => {
+      const legacy = [{ id: 'old-1', timestamp: 1, type: 'track', data: {}, retryCount: 0, pendingProviders: ['a'] }];
+      vi.mocked(localStorage.getItem).mockImplementation((key) =>
+        key === 'unified_tracking_queue' ? JSON.stringify(legacy) : null,
+      );
+      const storage = new MemoryQueueStorage();
+
+      await queue.setStorage(storage);
+
+      expect(queue.getEventsForProvider('a').map((event) => event.id)).toEqual(['old-1']);
+      expect((await storage.load()).map((event) => event.id)).toEqual(['old-1']);
+      expect(localStorage.removeItem).toHaveBeenCalledWith('unified_tracking_queue');
+    });
+
+    it('should restore stored events when the legacy entry cannot be migrated', async () => {
+      const storage = new MemoryQueueStorage();
+      await storage.save([
+        { id: 'stored-1', timestamp: 1, type: 'track', data: {}, retryCount: 0, pendingProviders: ['a'] },
+      ]);
+      vi.mocked(localStorage.getItem).mockImplementation((key) => (key === 'unified_tracking_queue' ? '{' : null));
+
+      await queue.setStorage(storage);
+
+      expect(queue.getEventsForProvider('a').map((event) => event.id)).toEqual(['stored-1']);
+    });
+  });
+
+  describe('tab coordination', () => {
+    /**
+     * Stand-in coordinators on a shared in-memory channel; the first one created leads
+     */
+    const createTabs = () => {
+      const tabs: any[] = [];
+      const createTab = (leader: boolean) => {
+        const tab: any = {
+          tabId: `tab-${tabs.length}`,
+          leader,
+          messageListeners: [] as Array<(message: any) => void>,
+          leaderListeners: [] as Array<() => void>,
+          start: async () => undefined,
+          stop: vi.fn(),
+          isLeader: () => tab.leader,
+          post: (message: any) => {
+            tabs
+              .filter((other) => other !== tab)
+              .forEach((other) =>
+                other.messageListeners.forEach((listener: any) => listener({ ...message, from: tab.tabId })),
+              );
+            return true;
+          },
+          onMessage: (listener: (message: any) => void) => tab.messageListeners.push(listener),
+          onLeader: (listener: () => void) => tab.leaderListeners.push(listener),
+          promote: () => {
+            tab.leader = true;
+            tab.leaderListeners.forEach((listener: () => void) => listener());
+          },
+        };
+        tabs.push(tab);
+        return tab;
+      };
+      return createTab;
+    };
+
+    it('should hand events from other tabs to the leader, which persists them', async () => {
+      const createTab = createTabs();
+      const storage = new MemoryQueueStorage();
+      const leader = new (EventQueue as any)() as EventQueue;
+      const follower = new (EventQueue as any)() as EventQueue;
+      await leader.enableTabCoordination(createTab(true));
+      await follower.enableTabCoordination(createTab(false));
+      await leader.setStorage(storage);
+      await follower.setStorage(new MemoryQueueStorage());
+
+      const event = follower.add({ type: 'track', data: { eventName: 'from-follower' }, pendingProviders: ['a'] });
+      await follower.flush();
+      await leader.whenPersisted();
+
+      expect(follower.isLeader()).toBe(false);
+      expect(follower.getEventsForProvider('a')).toEqual([]);
+      expect(leader.getEventsForProvider('a').map((queued) => queued.id)).toEqual([event.id]);
+      expect((await storage.load()).map((stored) => stored.id)).toEqual([event.id]);
+    });
+
+    it('should keep events this tab is still delivering and stop delivering the ones handed off', async () => {
+      const createTab = createTabs();
+      const leader = new (EventQueue as any)() as EventQueue;
+      const follower = new (EventQueue as any)() as EventQueue;
+      await leader.enableTabCoordination(createTab(true));
+      await follower.enableTabCoordination(createTab(false));
+
+      const sending = follower.add({ type: 'track', data: { eventName: 'sending' }, pendingProviders: ['a'] });
+      const idle = follower.add({ type: 'track', data: { eventName: 'idle' }, pendingProviders: ['a'] });
+      follower.beginDelivery(sending.id, 'a');
+      await follower.flush();
+
+      expect(leader.getEventsForProvider('a').map((queued) => queued.id)).toEqual([idle.id]);
+      expect(follower.getEventsToDeliver('a')).toEqual([]);
+
+      follower.markFailed(sending.id, 'a');
+      follower.endDelivery(sending.id, 'a');
+      await follower.flush();
+
+      expect(leader.getEventsForProvider('a').map((queued) => queued.id)).toEqual([idle.id, sending.id]);
+      expect(follower.getEventsForProvider('a')).toEqual([]);
+    });
+
+    it('should keep handed-off events in storage until the leader acknowledges them', async () => {
+      const createTab = createTabs();
+      const storage = new MemoryQueueStorage();
+      const follower = new (EventQueue as any)() as EventQueue;
+      const tab = createTab(false);
+      createTab(true);
+      await follower.enableTabCoordination(tab);
+      await follower.setStorage(storage);
+
+      const event = follower.add({ type: 'track', data: { eventName: 'unacked' }, pendingProviders: ['a'] });
+      await follower.flush();
+      await follower.whenPersisted();
+
+      expect(follower.getEventsForProvider('a')).toEqual([]);
+      expect((await storage.load()).map((stored) => stored.id)).toEqual([event.id]);
+
+      tab.promote();
+
+      await vi.waitFor(() => expect(follower.getEventsForProvider('a').map((queued) => queued.id)).toEqual([event.id]));
+    });
+
+    it('should take over the shared storage when a tab becomes the leader', async () => {
+      const createTab = createTabs();
+      const storage = new MemoryQueueStorage();
+      await storage.save([
+        { id: 'stored-1', timestamp: 1, type: 'track', data: {}, retryCount: 0, pendingProviders: ['a'] },
+      ]);
+      const queue = new (EventQueue as any)() as EventQueue;
+      const tab = createTab(false);
+      await queue.enableTabCoordination(tab);
+
+      await queue.setStorage(storage);
+      const event = queue.add({ type: 'track', data: { eventName: 'local' }, pendingProviders: ['a'] });
+      expect(queue.getEventsForProvider('a').map((queued) => queued.id)).toEqual([event.id]);
+
+      tab.promote();
+
+      await vi.waitFor(() =>
+        expect(queue.getEventsForProvider('a').map((queued) => queued.id)).toEqual(['stored-1', event.id]),
+      );
+      await queue.whenPersisted();
+      expect((await storage.load()).map((stored) => stored.id)).toEqual(['stored-1', event.id]);
+    });
+  });
+});
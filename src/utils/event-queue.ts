@@ -1,26 +1,61 @@
+import type { BatchingSettings, QueueStorageType, RetrySettings } from '../definitions';
+import { createQueueStorage, migrateLegacyQueue, type QueueStorage } from './queue-storage';
+import { TabCoordinator, type TabMessage } from './tab-coordinator';
+
+export type QueuedEventType = 'track' | 'identify' | 'error' | 'revenue' | 'screenView' | 'userProperties';
+
 export interface QueuedEvent {
   id: string;
   timestamp: number;
-  type: 'track' | 'identify' | 'error' | 'revenue' | 'screenView' | 'userProperties';
+  type: QueuedEventType;
   data: any;
   retryCount: number;
+  /**
+   * Providers that have not yet received this event
+   */
+  pendingProviders?: string[];
+  /**
+   * Failed delivery attempts per provider
+   */
+  providerRetries?: Record<string, number>;
+}
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_RETRIES = 3;
+
+type QueueListener = (events: QueuedEvent[]) => Promise<void>;
+type DrainListener = (events: QueuedEvent[]) => void;
+
+interface ListenerHandle {
+  remove(): Promise<void> | void;
 }
 
 export class EventQueue {
   private static instance: EventQueue;
   private queue: QueuedEvent[] = [];
   private processing = false;
-  private maxRetries = 3;
-  private batchSize = 10;
-  private flushInterval = 5000; // 5 seconds
+  private maxRetries = DEFAULT_MAX_RETRIES;
+  private maxQueueSize = 1000;
+  private batchSize = DEFAULT_BATCH_SIZE;
+  private flushInterval = DEFAULT_FLUSH_INTERVAL;
   private intervalId?: number;
-  private listeners: Array<(events: QueuedEvent[]) => Promise<void>> = [];
-  private providerQueues = new Map<string, QueuedEvent[]>();
+  private listeners: QueueListener[] = [];
+  // Listeners that already took an untargeted event, so a retry only goes to the ones that failed
+  private deliveredTo: WeakMap<QueuedEvent, Set<QueueListener>> = new WeakMap();
+  private drainListeners: DrainListener[] = [];
+  // Providers each event is being delivered to right now, so a flush meanwhile does not send it again
+  private inFlight: Map<string, Set<string>> = new Map();
+  private idleWaiters: Array<() => void> = [];
+  private appPauseListener?: Promise<ListenerHandle>;
+  private coordinator?: TabCoordinator;
+  // Events given to the leader tab, kept in storage but no longer delivered here until it acknowledges them
+  private handedOff: Map<string, QueuedEvent> = new Map();
+  private storage?: QueueStorage;
+  // Storage writes run one after another so a removal never overtakes the save it follows
+  private writes: Promise<void> = Promise.resolve();
 
-  private constructor() {
-    // Load any persisted events
-    this.loadPersistedEvents();
-  }
+  private constructor() {}
 
   static getInstance(): EventQueue {
     if (!EventQueue.instance) {
@@ -29,13 +64,94 @@ export class EventQueue {
     return EventQueue.instance;
   }
 
+  /**
+   * Take the listener batch size and flush interval from the batching settings, and the
+   * attempts per event from the retry settings
+   */
+  configure(settings?: BatchingSettings, retry?: RetrySettings): void {
+    this.batchSize = Math.max(1, settings?.maxSize ?? DEFAULT_BATCH_SIZE);
+    this.flushInterval = settings?.timeout ?? DEFAULT_FLUSH_INTERVAL;
+    this.maxRetries = retry?.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    // A running timer keeps its old interval until restarted
+    if (this.intervalId) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  /**
+   * Choose where undelivered events are kept and load the ones stored by earlier sessions.
+   * Events still under the original localStorage key are moved into the new storage.
+   */
+  async setStorage(storage: QueueStorageType | QueueStorage = 'auto'): Promise<void> {
+    const adapter = typeof storage === 'string' ? createQueueStorage(storage) : storage;
+
+    // Events queued so far have not been written to this storage; later ones are written as they come
+    const unsaved = [...this.queue];
+    this.storage = adapter;
+
+    // The stored backlog belongs to the leader tab; other tabs only write their own events
+    if (this.isLeader()) {
+      await this.restore(adapter);
+    }
+
+    const pending = unsaved.filter((event) => this.queue.includes(event));
+    if (pending.length) {
+      this.persist((target) => target.save(pending));
+    }
+    await this.whenPersisted();
+  }
+
+  /**
+   * Share the persisted queue with the other tabs of this origin: only the leader tab loads and
+   * redelivers it, and the other tabs hand their undelivered events over to the leader, keeping
+   * them in storage until it acknowledges them
+   */
+  async enableTabCoordination(coordinator: TabCoordinator = new TabCoordinator()): Promise<void> {
+    if (this.coordinator) return;
+
+    this.coordinator = coordinator;
+    coordinator.onMessage(this.handleTabMessage);
+    coordinator.onLeader(this.handleLeadership);
+    await coordinator.start();
+  }
+
+  disableTabCoordination(): void {
+    this.coordinator?.stop();
+    this.coordinator = undefined;
+
+    // Without a leader to acknowledge them, handed-off events are this tab's to deliver again
+    this.queue.push(...this.handedOff.values());
+    this.handedOff.clear();
+  }
+
+  isLeader(): boolean {
+    return !this.coordinator || this.coordinator.isLeader();
+  }
+
   start(): void {
     if (this.intervalId) return;
 
+    if (!this.storage) {
+      this.setStorage();
+    }
+
     this.intervalId = window.setInterval(() => {
       this.flush();
     }, this.flushInterval);
 
+    // Redeliver as soon as connectivity comes back
+    window.addEventListener('online', this.handleOnline);
+
+    // The interval never fires again once the page is hidden or the app is backgrounded
+    window.addEventListener('pagehide', this.drain);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    const app = (globalThis as any).Capacitor?.Plugins?.App;
+    if (app?.addListener) {
+      this.appPauseListener = Promise.resolve(app.addListener('pause', this.drain));
+    }
+
     // Process any queued events immediately
     this.flush();
   }
@@ -44,73 +160,131 @@ export class EventQueue {
     if (this.intervalId) {
       clearInterval(this.intervalId);
       this.intervalId = undefined;
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('pagehide', this.drain);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      this.appPauseListener?.then((handle) => handle.remove()).catch(() => undefined);
+      this.appPauseListener = undefined;
     }
   }
 
-  add(event: Omit<QueuedEvent, 'id' | 'timestamp' | 'retryCount'>): void {
+  add(event: Omit<QueuedEvent, 'id' | 'timestamp' | 'retryCount'> & { timestamp?: number }): QueuedEvent {
     const queuedEvent: QueuedEvent = {
       ...event,
       id: this.generateId(),
-      timestamp: Date.now(),
+      timestamp: event.timestamp ?? Date.now(),
       retryCount: 0,
     };
 
     this.queue.push(queuedEvent);
-    this.persistEvents();
+    this.persist((storage) => storage.save([queuedEvent]));
+    this.trimToMaxSize();
 
     // If queue is getting large, flush immediately
     if (this.queue.length >= this.batchSize * 2) {
       this.flush();
     }
+
+    return queuedEvent;
   }
 
-  addListener(listener: (events: QueuedEvent[]) => Promise<void>): void {
+  addListener(listener: QueueListener): void {
     this.listeners.push(listener);
   }
 
-  removeListener(listener: (events: QueuedEvent[]) => Promise<void>): void {
+  removeListener(listener: QueueListener): void {
     const index = this.listeners.indexOf(listener);
     if (index > -1) {
       this.listeners.splice(index, 1);
     }
   }
 
+  /**
+   * Listen for the page being hidden or unloaded. Drain listeners run synchronously and may only
+   * hand events to transports that outlive the page, such as sendBeacon.
+   */
+  addDrainListener(listener: DrainListener): void {
+    this.drainListeners.push(listener);
+  }
+
+  removeDrainListener(listener: DrainListener): void {
+    this.drainListeners = this.drainListeners.filter((registered) => registered !== listener);
+  }
+
+  /**
+   * Give the drain listeners everything still queued. Events they do not send stay in storage
+   * and are delivered on the next launch.
+   */
+  drain = (): void => {
+    if (this.queue.length === 0 || !this.isOnline()) {
+      return;
+    }
+
+    const snapshot = [...this.queue];
+    for (const listener of this.drainListeners) {
+      try {
+        listener(snapshot);
+      } catch {
+        // One failing listener must not keep the others from sending
+      }
+    }
+
+    // What is left goes to the leader
+    if (!this.isLeader()) {
+      this.handOff();
+    }
+  };
+
   async flush(): Promise<void> {
-    if (this.processing || this.queue.length === 0 || this.listeners.length === 0) {
+    // The leader delivers the shared backlog; other tabs give it their events instead
+    if (!this.isLeader()) {
+      this.handOff();
+      return;
+    }
+
+    if (this.processing || this.queue.length === 0 || this.listeners.length === 0 || !this.isOnline()) {
       return;
     }
 
     this.processing = true;
 
     try {
-      // Get batch of events
-      const batch = this.queue.splice(0, this.batchSize);
-
-      // Process batch with all listeners
-      const results = await Promise.allSettled(this.listeners.map((listener) => listener(batch)));
-
-      // Handle failed events
-      const failedEvents: QueuedEvent[] = [];
-      results.forEach((result) => {
-        if (result.status === 'rejected') {
-          // Re-queue events that failed for this listener
-          batch.forEach((event) => {
-            if (event.retryCount < this.maxRetries) {
-              failedEvents.push({
-                ...event,
-                retryCount: event.retryCount + 1,
-              });
-            }
+      // Work on a snapshot so events added during delivery wait for the next flush
+      const snapshot = [...this.queue];
+
+      for (let i = 0; i < snapshot.length; i += this.batchSize) {
+        const batch = snapshot.slice(i, i + this.batchSize);
+
+        // Process batch with all listeners
+        const listeners = [...this.listeners];
+        const results = await Promise.allSettled(
+          listeners.map((listener) => {
+            const events = batch.filter((event) => !this.deliveredTo.get(event)?.has(listener));
+            return events.length > 0 ? listener(events) : Promise.resolve();
+          }),
+        );
+
+        // Untargeted events are settled per listener; targeted events are
+        // settled per provider through markDelivered/markFailed
+        batch.forEach((event) => {
+          if (event.pendingProviders) {
+            return;
+          }
+
+          const delivered = this.deliveredTo.get(event) || new Set<QueueListener>();
+          results.forEach((result, index) => {
+            if (result.status === 'fulfilled') delivered.add(listeners[index]);
           });
-        }
-      });
+          this.deliveredTo.set(event, delivered);
 
-      // Re-add failed events to the front of the queue
-      if (failedEvents.length > 0) {
-        this.queue.unshift(...failedEvents);
+          if (listeners.every((listener) => delivered.has(listener)) || event.retryCount >= this.maxRetries) {
+            this.removeEvent(event.id);
+          } else {
+            event.retryCount += 1;
+            this.persist((storage) => storage.save([event]));
+          }
+        });
       }
-
-      this.persistEvents();
     } finally {
       this.processing = false;
     }
@@ -118,58 +292,296 @@ export class EventQueue {
 
   clear(): void {
     this.queue = [];
-    this.clearPersistedEvents();
+    this.handedOff.clear();
+    this.persist((storage) => storage.clear());
+    this.coordinator?.post({ type: 'clear' });
+  }
+
+  getEvents(): QueuedEvent[] {
+    return this.queue.map((event) => ({ ...event }));
   }
 
   getQueueSize(): number {
     return this.queue.length;
   }
 
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  getEventsForProvider(providerId: string): QueuedEvent[] {
+    return this.queue.filter((event) => event.pendingProviders?.includes(providerId));
   }
 
-  private persistEvents(): void {
-    try {
-      if (typeof localStorage !== 'undefined') {
-        localStorage.setItem('unified_tracking_queue', JSON.stringify(this.queue));
-      }
-    } catch (error) {
-      // Ignore storage errors
+  /**
+   * Events pending for a provider that are not already being delivered to it
+   */
+  getEventsToDeliver(providerId: string): QueuedEvent[] {
+    return this.getEventsForProvider(providerId).filter((event) => !this.isDelivering(event.id, providerId));
+  }
+
+  /**
+   * Claim the delivery of an event to a provider; false when that delivery is already under way.
+   * Every successful claim must be followed by endDelivery.
+   */
+  beginDelivery(eventId: string, providerId: string): boolean {
+    const providers = this.inFlight.get(eventId) || new Set<string>();
+    if (providers.has(providerId)) {
+      return false;
     }
+
+    providers.add(providerId);
+    this.inFlight.set(eventId, providers);
+    return true;
   }
 
-  private loadPersistedEvents(): void {
-    try {
-      if (typeof localStorage !== 'undefined') {
-        const stored = localStorage.getItem('unified_tracking_queue');
-        if (stored) {
-          this.queue = JSON.parse(stored);
+  endDelivery(eventId: string, providerId: string): void {
+    const providers = this.inFlight.get(eventId);
+    providers?.delete(providerId);
+    if (providers?.size === 0) {
+      this.inFlight.delete(eventId);
+    }
+
+    if (this.inFlight.size === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  /**
+   * Whether an event is being delivered to the provider, or to any provider when none is given
+   */
+  isDelivering(eventId: string, providerId?: string): boolean {
+    const providers = this.inFlight.get(eventId);
+    return providerId ? !!providers?.has(providerId) : !!providers?.size;
+  }
+
+  /**
+   * Resolves once no delivery is under way
+   */
+  whenDeliveriesSettled(): Promise<void> {
+    if (this.inFlight.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  addEventForProvider(providerId: string, event: QueuedEvent): void {
+    const existing = this.queue.find((queued) => queued.id === event.id);
+    const target = existing || event;
+
+    target.pendingProviders = target.pendingProviders || [];
+    if (!target.pendingProviders.includes(providerId)) {
+      target.pendingProviders.push(providerId);
+    }
+
+    if (!existing) {
+      this.queue.push(target);
+    }
+
+    this.persist((storage) => storage.save([target]));
+  }
+
+  /**
+   * Record a successful delivery; the event is dropped once every provider has it
+   */
+  markDelivered(eventId: string, providerId: string): void {
+    const event = this.queue.find((queued) => queued.id === eventId);
+    if (!event?.pendingProviders) {
+      return;
+    }
+
+    event.pendingProviders = event.pendingProviders.filter((id) => id !== providerId);
+    this.settle(event);
+  }
+
+  /**
+   * Record a failed delivery; the provider is given up on after maxRetries attempts
+   */
+  markFailed(eventId: string, providerId: string): void {
+    const event = this.queue.find((queued) => queued.id === eventId);
+    if (!event?.pendingProviders) {
+      return;
+    }
+
+    event.providerRetries = event.providerRetries || {};
+    event.providerRetries[providerId] = (event.providerRetries[providerId] || 0) + 1;
+    event.retryCount = Math.max(event.retryCount, event.providerRetries[providerId]);
+
+    if (event.providerRetries[providerId] > this.maxRetries) {
+      event.pendingProviders = event.pendingProviders.filter((id) => id !== providerId);
+    }
+
+    this.settle(event);
+  }
+
+  /**
+   * Record a failure that no retry can fix, such as a rejected payload; the event is dropped for the provider
+   */
+  markRejected(eventId: string, providerId: string): void {
+    const event = this.queue.find((queued) => queued.id === eventId);
+    if (!event?.pendingProviders) {
+      return;
+    }
+
+    event.pendingProviders = event.pendingProviders.filter((id) => id !== providerId);
+    this.settle(event);
+  }
+
+  /**
+   * Stop delivering to a provider, e.g. when it failed to load or lost consent
+   */
+  removeProvider(providerId: string): void {
+    for (const event of this.getEventsForProvider(providerId)) {
+      event.pendingProviders = event.pendingProviders!.filter((id) => id !== providerId);
+      this.settle(event);
+    }
+  }
+
+  isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+
+  /**
+   * Resolves once every storage write issued so far has finished
+   */
+  whenPersisted(): Promise<void> {
+    return this.writes;
+  }
+
+  private handleOnline = (): void => {
+    this.flush();
+  };
+
+  private handleLeadership = (): void => {
+    // Events the old leader never acknowledged are still in the shared storage
+    this.handedOff.clear();
+
+    // Take over the shared storage, adding the events this tab still holds
+    const storage = this.storage;
+    if (storage) {
+      this.restore(storage).then(() => this.flush());
+    }
+  };
+
+  private handleTabMessage = (message: TabMessage): void => {
+    switch (message.type) {
+      case 'handoff':
+        if (this.coordinator?.isLeader()) {
+          this.receive(message.events);
+          this.coordinator.post({
+            type: 'ack',
+            to: message.from,
+            ids: message.events.map((event: QueuedEvent) => event.id),
+          });
         }
-      }
-    } catch (error) {
-      // Ignore storage errors
+        break;
+      case 'ack':
+        // The leader stored these under the same ids, so they stay in storage
+        if (message.to === this.coordinator?.tabId) {
+          message.ids.forEach((id: string) => this.handedOff.delete(id));
+        }
+        break;
+      case 'clear':
+        // The tab that cleared has already emptied the shared storage
+        this.queue = [];
+        this.handedOff.clear();
+        break;
+    }
+  };
+
+  private handOff(): void {
+    // Events this tab is still delivering would reach their providers twice
+    const events = this.queue.filter((event) => !this.isDelivering(event.id));
+    if (events.length === 0 || !this.coordinator?.post({ type: 'handoff', events })) {
+      return;
     }
+
+    this.queue = this.queue.filter((event) => !events.includes(event));
+    events.forEach((event) => this.handedOff.set(event.id, event));
   }
 
-  private clearPersistedEvents(): void {
+  /**
+   * Add the events stored by earlier sessions and other tabs to the ones this tab holds
+   */
+  private async restore(adapter: QueueStorage): Promise<void> {
+    const stored: QueuedEvent[] = [];
     try {
-      if (typeof localStorage !== 'undefined') {
-        localStorage.removeItem('unified_tracking_queue');
-      }
-    } catch (error) {
+      stored.push(...(await adapter.load()));
+    } catch {
       // Ignore storage errors
     }
+
+    // A broken legacy entry must not cost the events already in the new storage
+    try {
+      stored.push(...(await migrateLegacyQueue(adapter)));
+    } catch {
+      // Ignore storage errors
+    }
+
+    const known = new Set(this.queue.map((event) => event.id));
+    const restored = stored.filter((event) => !known.has(event.id));
+    this.queue = [...new Map(restored.map((event) => [event.id, event])).values(), ...this.queue];
+    this.trimToMaxSize();
   }
 
-  getEventsForProvider(providerId: string): QueuedEvent[] {
-    return this.providerQueues.get(providerId) || [];
+  /**
+   * Take over events handed off by another tab
+   */
+  private receive(events: QueuedEvent[]): void {
+    const known = new Set(this.queue.map((event) => event.id));
+    const received = events.filter((event) => !known.has(event.id));
+    if (received.length === 0) {
+      return;
+    }
+
+    this.queue.push(...received);
+    this.persist((storage) => storage.save(received));
+    this.trimToMaxSize();
+    this.flush();
   }
 
-  addEventForProvider(providerId: string, event: QueuedEvent): void {
-    if (!this.providerQueues.has(providerId)) {
-      this.providerQueues.set(providerId, []);
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.drain();
     }
-    this.providerQueues.get(providerId)!.push(event);
+  };
+
+  private settle(event: QueuedEvent): void {
+    if (event.pendingProviders?.length === 0) {
+      this.removeEvent(event.id);
+    } else {
+      this.persist((storage) => storage.save([event]));
+    }
+  }
+
+  private removeEvent(eventId: string): void {
+    const index = this.queue.findIndex((event) => event.id === eventId);
+    if (index > -1) {
+      this.queue.splice(index, 1);
+      this.persist((storage) => storage.remove([eventId]));
+    }
+  }
+
+  /**
+   * Drop the oldest events rather than growing without bound while offline
+   */
+  private trimToMaxSize(): void {
+    if (this.queue.length > this.maxQueueSize) {
+      const dropped = this.queue.splice(0, this.queue.length - this.maxQueueSize);
+      this.persist((storage) => storage.remove(dropped.map((event) => event.id)));
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persist(write: (storage: QueueStorage) => Promise<void>): void {
+    const storage = this.storage;
+    if (!storage) {
+      return;
+    }
+
+    this.writes = this.writes
+      .then(() => write(storage))
+      .catch(() => {
+        // Ignore storage errors
+      });
   }
 }
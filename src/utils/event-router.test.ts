@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventRouter } from './event-router';
+
+describe('EventRouter', () => {
+  it('should route every event to providers without rules', () => {
+    const router = new EventRouter({ mixpanel: { include: ['checkout_*'] } });
+
+    expect(router.shouldRoute('amplitude', 'debug_click')).toBe(true);
+  });
+
+  it('should only route included events', () => {
+    const router = new EventRouter({ mixpanel: { include: ['checkout_*', /^order_(placed|paid)$/] } });
+
+    expect(router.shouldRoute('mixpanel', 'checkout_started')).toBe(true);
+    expect(router.shouldRoute('mixpanel', 'order_paid')).toBe(true);
+    expect(router.shouldRoute('mixpanel', 'order_refunded')).toBe(false);
+    expect(router.shouldRoute('mixpanel', 'page_scrolled')).toBe(false);
+  });
+
+  it('should never route excluded events', () => {
+    const router = new EventRouter({ google: { exclude: ['debug_*', 'step_?'] } });
+
+    expect(router.shouldRoute('google', 'debug_render')).toBe(false);
+    expect(router.shouldRoute('google', 'step_1')).toBe(false);
+    expect(router.shouldRoute('google', 'step_10')).toBe(true);
+  });
+
+  it('should treat glob patterns literally apart from wildcards', () => {
+    const router = new EventRouter({ google: { include: ['app.open*'] } });
+
+    expect(router.shouldRoute('google', 'app.opened')).toBe(true);
+    expect(router.shouldRoute('google', 'appXopened')).toBe(false);
+  });
+
+  it('should match property values and predicates', () => {
+    const router = new EventRouter({
+      mixpanel: {
+        properties: {
+          plan: 'enterprise',
+          total: (value: number) => value >= 100,
+        },
+      },
+    });
+
+    expect(router.shouldRoute('mixpanel', 'purchase', { plan: 'enterprise', total: 250 })).toBe(true);
+    expect(router.shouldRoute('mixpanel', 'purchase', { plan: 'enterprise', total: 20 })).toBe(false);
+    expect(router.shouldRoute('mixpanel', 'purchase', { plan: 'free', total: 250 })).toBe(false);
+  });
+
+  it('should not route when a custom predicate throws', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const router = new EventRouter({
+      segment: {
+        where: () => {
+          throw new Error('Broken predicate');
+        },
+      },
+    });
+
+    expect(router.shouldRoute('segment', 'purchase')).toBe(false);
+    expect(error).toHaveBeenCalled();
+
+    error.mockRestore();
+  });
+
+  it('should treat a throwing property predicate as a non-match and log it', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const router = new EventRouter({
+      mixpanel: {
+        properties: {
+          total: (value: { amount: number }) => value.amount >= 100,
+        },
+      },
+    });
+
+    expect(router.shouldRoute('mixpanel', 'purchase')).toBe(false);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('"total"'), expect.any(TypeError));
+
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+import type { EventMatcher, PropertyMatcher, RoutingConfig, RoutingRule } from '../definitions';
+import { Logger } from './logger';
+
+/**
+ * Decides which providers receive a tracked event based on the routing config.
+ * Providers without a rule receive every event.
+ */
+export class EventRouter {
+  private rules: RoutingConfig;
+  private patternCache: Map<string, RegExp> = new Map();
+  private logger: Logger;
+
+  constructor(rules: RoutingConfig = {}) {
+    this.rules = rules;
+    this.logger = Logger.getInstance();
+  }
+
+  setRules(rules: RoutingConfig = {}): void {
+    this.rules = rules;
+  }
+
+  shouldRoute(providerId: string, eventName: string, properties: Record<string, any> = {}): boolean {
+    const rule = this.rules[providerId];
+    if (!rule) {
+      return true;
+    }
+
+    return this.matchesRule(rule, eventName, properties);
+  }
+
+  private matchesRule(rule: RoutingRule, eventName: string, properties: Record<string, any>): boolean {
+    if (rule.include && !rule.include.some((matcher) => this.matchesEvent(matcher, eventName))) {
+      return false;
+    }
+
+    if (rule.exclude?.some((matcher) => this.matchesEvent(matcher, eventName))) {
+      return false;
+    }
+
+    if (rule.properties) {
+      for (const [key, matcher] of Object.entries(rule.properties)) {
+        if (!this.matchesProperty(matcher, key, properties[key])) {
+          return false;
+        }
+      }
+    }
+
+    if (rule.where) {
+      try {
+        return rule.where(eventName, properties);
+      } catch (error) {
+        // A failing predicate keeps the event away from the provider
+        this.logger.error(`Routing predicate failed for "${eventName}"`, error);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private matchesEvent(matcher: EventMatcher, eventName: string): boolean {
+    if (matcher instanceof RegExp) {
+      matcher.lastIndex = 0;
+      return matcher.test(eventName);
+    }
+
+    if (!/[*?]/.test(matcher)) {
+      return matcher === eventName;
+    }
+
+    return this.compileGlob(matcher).test(eventName);
+  }
+
+  private matchesProperty(matcher: PropertyMatcher, key: string, value: any): boolean {
+    if (typeof matcher === 'function') {
+      try {
+        return matcher(value);
+      } catch (error) {
+        // Treated like a value that does not match
+        this.logger.error(`Routing predicate for property "${key}" failed`, error);
+        return false;
+      }
+    }
+
+    if (matcher instanceof RegExp) {
+      matcher.lastIndex = 0;
+      return typeof value === 'string' && matcher.test(value);
+    }
+
+    return value === matcher;
+  }
+
+  private compileGlob(pattern: string): RegExp {
+    let regex = this.patternCache.get(pattern);
+
+    if (!regex) {
+      const source = pattern
+        .split('')
+        .map((char) => {
+          if (char === '*') return '.*';
+          if (char === '?') return '.';
+          return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+      regex = new RegExp(`^${source}$`);
+      this.patternCache.set(pattern, regex);
+    }
+
+    return regex;
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventTimer } from './event-timer';
+
+describe('EventTimer', () => {
+  beforeEach(() => {
+    (EventTimer as any).instance = undefined;
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the elapsed time once and forget the timer', () => {
+    const timer = EventTimer.getInstance();
+
+    timer.start('checkout');
+    vi.advanceTimersByTime(1500);
+
+    expect(timer.stop('checkout')).toBe(1500);
+    expect(timer.stop('checkout')).toBeUndefined();
+  });
+
+  it('should resume timers persisted before a reload', () => {
+    vi.setSystemTime(10000);
+    vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ upload: 4000 }));
+
+    expect(EventTimer.getInstance().stop('upload')).toBe(6000);
+  });
+
+  it('should not mistake inherited object keys for running timers', () => {
+    const timer = EventTimer.getInstance();
+
+    expect(timer.stop('constructor')).toBeUndefined();
+    expect(timer.stop('toString')).toBeUndefined();
+  });
+
+  it('should discard cancelled timers', () => {
+    const timer = EventTimer.getInstance();
+
+    timer.start('video');
+    timer.cancel('video');
+
+    expect(timer.stop('video')).toBeUndefined();
+  });
+});
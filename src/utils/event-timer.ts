@@ -0,0 +1,83 @@
+const STORAGE_KEY = 'unified_tracking_timed_events';
+
+/**
+ * Start times of timed events, persisted so a timer survives page reloads
+ */
+export class EventTimer {
+  private static instance: EventTimer;
+  private timers: Map<string, number>;
+
+  private constructor() {
+    this.timers = this.loadTimers();
+  }
+
+  static getInstance(): EventTimer {
+    if (!EventTimer.instance) {
+      EventTimer.instance = new EventTimer();
+    }
+    return EventTimer.instance;
+  }
+
+  /**
+   * Start (or restart) the timer for an event
+   */
+  start(eventName: string): void {
+    this.timers.set(eventName, Date.now());
+    this.persistTimers();
+  }
+
+  /**
+   * Stop the timer and return the elapsed milliseconds, or undefined if it was not started
+   */
+  stop(eventName: string): number | undefined {
+    const startedAt = this.timers.get(eventName);
+    if (startedAt === undefined) {
+      return undefined;
+    }
+
+    this.cancel(eventName);
+    return Math.max(0, Date.now() - startedAt);
+  }
+
+  cancel(eventName: string): void {
+    if (this.timers.delete(eventName)) {
+      this.persistTimers();
+    }
+  }
+
+  /**
+   * Start times of the running timers, keyed by event name
+   */
+  getAll(): Record<string, number> {
+    return Object.fromEntries(this.timers);
+  }
+
+  clear(): void {
+    this.timers.clear();
+    this.persistTimers();
+  }
+
+  private persistTimers(): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.timers)));
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  private loadTimers(): Map<string, number> {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          return new Map(Object.entries(JSON.parse(stored)));
+        }
+      }
+    } catch {
+      // Ignore storage errors
+    }
+    return new Map();
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IdentityManager } from './identity-manager';
+
+describe('IdentityManager', () => {
+  let identityManager: IdentityManager;
+
+  beforeEach(() => {
+    (IdentityManager as any).instance = undefined;
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+    identityManager = IdentityManager.getInstance();
+  });
+
+  it('should create and persist an anonymous ID using the configured generator', () => {
+    identityManager.load(() => 'custom-id');
+
+    expect(identityManager.getAnonymousId()).toBe('custom-id');
+    expect(localStorage.setItem).toHaveBeenCalledWith(
+      'unified_tracking_identity',
+      JSON.stringify({ anonymousId: 'custom-id' }),
+    );
+  });
+
+  it('should restore the persisted identity', () => {
+    vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ anonymousId: 'stored', userId: 'user-1' }));
+
+    identityManager.load();
+
+    expect(identityManager.getAnonymousId()).toBe('stored');
+    expect(identityManager.getUserId()).toBe('user-1');
+    expect(identityManager.identify('user-2')).toBeUndefined();
+  });
+
+  it('should return the anonymous ID to alias on the first identify only', () => {
+    identityManager.load(() => 'anon-1');
+
+    expect(identityManager.identify('user-1')).toBe('anon-1');
+    expect(identityManager.identify('user-1')).toBeUndefined();
+  });
+
+  it('should forget the user and rotate the anonymous ID on reset', () => {
+    identityManager.load();
+    const firstId = identityManager.getAnonymousId();
+    identityManager.identify('user-1');
+
+    const nextId = identityManager.reset();
+
+    expect(nextId).not.toBe(firstId);
+    expect(identityManager.getUserId()).toBeNull();
+  });
+
+  it('should follow an identity reset in another tab', () => {
+    identityManager.load(() => 'anon-1');
+    const onChange = vi.fn();
+    const stop = identityManager.syncAcrossTabs(onChange);
+
+    const newValue = JSON.stringify({ anonymousId: 'anon-2' });
+    window.dispatchEvent(new StorageEvent('storage', { key: 'unified_tracking_identity', newValue }));
+
+    expect(onChange).toHaveBeenCalledWith('anon-2');
+    expect(identityManager.getAnonymousId()).toBe('anon-2');
+
+    stop();
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'unified_tracking_identity', newValue: '{"anonymousId":"anon-3"}' }),
+    );
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,145 @@
+interface StoredIdentity {
+  anonymousId: string;
+  userId?: string;
+}
+
+const STORAGE_KEY = 'unified_tracking_identity';
+
+/**
+ * Owns the anonymous ID shared by all providers and the identified user ID,
+ * persisted so the same visitor keeps one ID across reloads.
+ */
+export class IdentityManager {
+  private static instance: IdentityManager;
+  private identity: StoredIdentity | null = null;
+  private generator?: () => string;
+
+  private constructor() {}
+
+  static getInstance(): IdentityManager {
+    if (!IdentityManager.instance) {
+      IdentityManager.instance = new IdentityManager();
+    }
+    return IdentityManager.instance;
+  }
+
+  /**
+   * Load the persisted identity, creating an anonymous ID on first use
+   */
+  load(generator?: () => string): void {
+    this.generator = generator;
+
+    const stored = this.loadIdentity();
+    this.identity = stored?.anonymousId ? stored : { anonymousId: this.generateId() };
+    this.persistIdentity();
+  }
+
+  getAnonymousId(): string {
+    if (!this.identity) {
+      this.load(this.generator);
+    }
+    return this.identity!.anonymousId;
+  }
+
+  getUserId(): string | null {
+    return this.identity?.userId ?? null;
+  }
+
+  /**
+   * Record the identified user. Returns the anonymous ID to alias when an
+   * anonymous visitor identifies for the first time.
+   */
+  identify(userId: string): string | undefined {
+    const anonymousId = this.getAnonymousId();
+    const previousUserId = this.identity!.userId;
+
+    this.identity!.userId = userId;
+    this.persistIdentity();
+
+    // Switching between two known users must not merge them
+    return previousUserId ? undefined : anonymousId;
+  }
+
+  /**
+   * Forget the user and start over with a new anonymous ID
+   */
+  reset(): string {
+    this.identity = { anonymousId: this.generateId() };
+    this.persistIdentity();
+    return this.identity.anonymousId;
+  }
+
+  /**
+   * Follow identity changes other tabs persist, such as a reset or a new user;
+   * onChange receives a changed anonymous ID. Returns a function that stops listening.
+   */
+  syncAcrossTabs(onChange: (anonymousId: string) => void): () => void {
+    if (typeof window === 'undefined') {
+      return () => undefined;
+    }
+
+    // Storage events only fire in the tabs that did not make the change
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== STORAGE_KEY || !event.newValue) return;
+
+      let stored: StoredIdentity;
+      try {
+        stored = JSON.parse(event.newValue);
+      } catch {
+        return;
+      }
+      if (!stored?.anonymousId) return;
+
+      const changed = stored.anonymousId !== this.identity?.anonymousId;
+      this.identity = stored;
+      if (changed) {
+        onChange(stored.anonymousId);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  private generateId(): string {
+    if (this.generator) {
+      try {
+        const id = this.generator();
+        if (id) {
+          return id;
+        }
+      } catch {
+        // Fall back to the default generator
+      }
+    }
+
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persistIdentity(): void {
+    try {
+      if (typeof localStorage !== 'undefined' && this.identity) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.identity));
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  private loadIdentity(): StoredIdentity | null {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          return JSON.parse(stored);
+        }
+      }
+    } catch {
+      // Ignore storage errors
+    }
+    return null;
+  }
+}
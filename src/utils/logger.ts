@@ -2,6 +2,7 @@ export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 export class Logger {
   private static instance: Logger;
+  private static writing = false;
   private prefix: string;
   private debugMode = false;
   private logLevel: LogLevel = 'info';
@@ -17,6 +18,14 @@ export class Logger {
     return Logger.instance;
   }
 
+  /**
+   * Whether any Logger is writing to the console right now, so console instrumentation can tell
+   * the library's own output from the app's
+   */
+  static isWriting(): boolean {
+    return Logger.writing;
+  }
+
   setDebugMode(enabled: boolean): void {
     this.debugMode = enabled;
     this.logLevel = enabled ? 'debug' : 'info';
@@ -28,25 +37,34 @@ export class Logger {
 
   debug(message: string, ...args: any[]): void {
     if (this.shouldLog('debug')) {
-      console.log(`${this.prefix} ${message}`, ...args);
+      this.write('log', message, args);
     }
   }
 
   info(message: string, ...args: any[]): void {
     if (this.shouldLog('info')) {
-      console.info(`${this.prefix} ${message}`, ...args);
+      this.write('info', message, args);
     }
   }
 
   warn(message: string, ...args: any[]): void {
     if (this.shouldLog('warn')) {
-      console.warn(`${this.prefix} ${message}`, ...args);
+      this.write('warn', message, args);
     }
   }
 
   error(message: string, ...args: any[]): void {
     if (this.shouldLog('error')) {
-      console.error(`${this.prefix} ${message}`, ...args);
+      this.write('error', message, args);
+    }
+  }
+
+  private write(method: 'log' | 'info' | 'warn' | 'error', message: string, args: any[]): void {
+    Logger.writing = true;
+    try {
+      console[method](`${this.prefix} ${message}`, ...args);
+    } finally {
+      Logger.writing = false;
     }
   }
 
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { QueuedEvent } from './event-queue';
+import {
+  createQueueStorage,
+  FilesystemQueueStorage,
+  IndexedDbQueueStorage,
+  LocalStorageQueueStorage,
+  MemoryQueueStorage,
+  migrateLegacyQueue,
+  PreferencesQueueStorage,
+} from './queue-storage';
+
+function event(id: string, timestamp: number, data: any = {}): QueuedEvent {
+  return { id, timestamp, type: 'track', data, retryCount: 0 };
+}
+
+describe('queue storage', () => {
+  afterEach(() => {
+    delete (globalThis as any).Capacitor;
+  });
+
+  describe('createQueueStorage', () => {
+    it('should fall back to localStorage when IndexedDB is unavailable', () => {
+      expect(createQueueStorage('auto')).toBeInstanceOf(LocalStorageQueueStorage);
+      expect(createQueueStorage('memory')).toBeInstanceOf(MemoryQueueStorage);
+    });
+  });
+
+  describe('PreferencesQueueStorage', () => {
+    let values: Map<string, string>;
+
+    beforeEach(() => {
+      values = new Map([['unrelated', 'keep']]);
+      (globalThis as any).Capacitor = {
+        Plugins: {
+          Preferences: {
+            get: async ({ key }: { key: string }) => ({ value: values.get(key) ?? null }),
+            set: async ({ key, value }: { key: string; value: string }) => void values.set(key, value),
+            remove: async ({ key }: { key: string }) => void values.delete(key),
+            keys: async () => ({ keys: [...values.keys()] }),
+          },
+        },
+      };
+    });
+
+    it('should store one key per event and load them oldest first', async () => {
+      const storage = new PreferencesQueueStorage();
+      await storage.save([event('b', 2), event('a', 1, { error: new Error('Boom') })]);
+
+      expect(values.has('unified_tracking_queue:a')).toBe(true);
+
+      const loaded = await storage.load();
+      expect(loaded.map(({ id }) => id)).toEqual(['a', 'b']);
+      expect(loaded[0].data.error).toBeInstanceOf(Error);
+    });
+
+    it('should only clear its own keys', async () => {
+      const storage = new PreferencesQueueStorage();
+      await storage.save([event('a', 1), event('b', 2)]);
+      await storage.remove(['a']);
+      expect((await storage.load()).map(({ id }) => id)).toEqual(['b']);
+
+      await storage.clear();
+      expect([...values.keys()]).toEqual(['unrelated']);
+    });
+
+    it('should reject when the plugin is missing', async () => {
+      delete (globalThis as any).Capacitor;
+      await expect(new PreferencesQueueStorage().load()).rejects.toThrow('Preferences plugin is not available');
+    });
+  });
+
+  describe('IndexedDbQueueStorage', () => {
+    beforeEach(() => {
+      (globalThis as any).indexedDB = new IDBFactory();
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).indexedDB;
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.removeItem).mockReset();
+    });
+
+    it('should store one record per event and load them oldest first', async () => {
+      const storage = new IndexedDbQueueStorage();
+      expect(await storage.load()).toEqual([]);
+
+      await storage.save([event('c', 3), event('a', 1, { error: new Error('Boom') }), event('b', 2)]);
+      await storage.remove(['c']);
+
+      const loaded = await storage.load();
+      expect(loaded.map(({ id }) => id)).toEqual(['a', 'b']);
+      expect(loaded[0].data.error).toBeInstanceOf(Error);
+
+      await storage.clear();
+      expect(await new IndexedDbQueueStorage().load()).toEqual([]);
+    });
+
+    it('should overwrite an event saved again', async () => {
+      const storage = new IndexedDbQueueStorage();
+      await storage.save([{ ...event('a', 1), pendingProviders: ['x', 'y'] }]);
+      await storage.save([{ ...event('a', 1), pendingProviders: ['y'] }]);
+
+      expect((await storage.load()).map(({ pendingProviders }) => pendingProviders)).toEqual([['y']]);
+    });
+
+    it('should take over events from the original localStorage key', async () => {
+      vi.mocked(localStorage.getItem).mockImplementation((key) =>
+        key === 'unified_tracking_queue' ? JSON.stringify([event('old', 1)]) : null,
+      );
+      const storage = new IndexedDbQueueStorage();
+
+      const migrated = await migrateLegacyQueue(storage);
+
+      expect(migrated.map(({ id }) => id)).toEqual(['old']);
+      expect((await storage.load()).map(({ id }) => id)).toEqual(['old']);
+      expect(localStorage.removeItem).toHaveBeenCalledWith('unified_tracking_queue');
+    });
+  });
+
+  describe('LocalStorageQueueStorage', () => {
+    afterEach(() => {
+      vi.mocked(localStorage.getItem).mockReset();
+      vi.mocked(localStorage.setItem).mockReset();
+    });
+
+    it('should keep events written by another tab', async () => {
+      const values = new Map<string, string>();
+      vi.mocked(localStorage.getItem).mockImplementation((key) => values.get(key) ?? null);
+      vi.mocked(localStorage.setItem).mockImplementation((key, value) => void values.set(key, value));
+      const first = new LocalStorageQueueStorage();
+      const second = new LocalStorageQueueStorage();
+      await first.load();
+      await second.load();
+
+      await first.save([event('a', 1)]);
+      await second.save([event('b', 2)]);
+      await first.remove(['a']);
+
+      expect((await second.load()).map(({ id }) => id)).toEqual(['b']);
+    });
+  });
+
+  describe('FilesystemQueueStorage', () => {
+    let files: Map<string, string>;
+
+    beforeEach(() => {
+      files = new Map();
+      (globalThis as any).Capacitor = {
+        Plugins: {
+          Filesystem: {
+            readdir: async ({ path }: { path: string }) => {
+              const names = [...files.keys()].filter((file) => file.startsWith(`${path}/`));
+              if (!names.length) throw new Error('Folder does not exist');
+              return { files: names.map((file) => ({ name: file.slice(path.length + 1) })) };
+            },
+            readFile: async ({ path }: { path: string }) => ({ data: files.get(path)! }),
+            writeFile: async ({ path, data }: { path: string; data: string }) => void files.set(path, data),
+            deleteFile: async ({ path }: { path: string }) => void files.delete(path),
+            rmdir: async ({ path }: { path: string }) =>
+              [...files.keys()].filter((file) => file.startsWith(`${path}/`)).forEach((file) => files.delete(file)),
+          },
+        },
+      };
+    });
+
+    it('should write one file per event', async () => {
+      const storage = new FilesystemQueueStorage();
+      expect(await storage.load()).toEqual([]);
+
+      await storage.save([event('a', 1), event('b', 2)]);
+      expect(files.size).toBe(2);
+
+      await storage.remove(['a']);
+      expect((await storage.load()).map(({ id }) => id)).toEqual(['b']);
+
+      await storage.clear();
+      expect(files.size).toBe(0);
+    });
+  });
+});
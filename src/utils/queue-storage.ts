@@ -0,0 +1,349 @@
+import type { QueueStorageType } from '../definitions';
+import type { QueuedEvent } from './event-queue';
+
+/**
+ * Where EventQueue keeps undelivered events. Events are written and removed one by one,
+ * so a backend never has to rewrite the whole queue.
+ */
+export interface QueueStorage {
+  load(): Promise<QueuedEvent[]>;
+
+  /**
+   * Insert the events or replace stored ones with the same id
+   */
+  save(events: QueuedEvent[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const LEGACY_KEY = 'unified_tracking_queue';
+const KEY_PREFIX = 'unified_tracking_queue:';
+const DB_NAME = 'unified_tracking';
+const STORE_NAME = 'events';
+const DIRECTORY = 'DATA';
+const FOLDER = 'unified_tracking_queue';
+
+/**
+ * Keeps events for the lifetime of the page only
+ */
+export class MemoryQueueStorage implements QueueStorage {
+  private events: Map<string, string> = new Map();
+
+  async load(): Promise<QueuedEvent[]> {
+    return sortEvents([...this.events.values()].map(deserializeEvent));
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    events.forEach((event) => this.events.set(event.id, serializeEvent(event)));
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach((id) => this.events.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    this.events.clear();
+  }
+}
+
+/**
+ * The original format: the whole queue serialized under one localStorage key. The key is
+ * re-read before every write so tabs sharing it do not overwrite each other's events.
+ */
+export class LocalStorageQueueStorage implements QueueStorage {
+  async load(): Promise<QueuedEvent[]> {
+    return this.read();
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    const stored = new Map(this.read().map((event) => [event.id, event]));
+    events.forEach((event) => stored.set(event.id, event));
+    this.write([...stored.values()]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    this.write(this.read().filter((event) => !removed.has(event.id)));
+  }
+
+  async clear(): Promise<void> {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.removeItem(LEGACY_KEY);
+    }
+  }
+
+  private read(): QueuedEvent[] {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LEGACY_KEY) : null;
+    return stored ? JSON.parse(stored, deserializeErrors) : [];
+  }
+
+  private write(events: QueuedEvent[]): void {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(LEGACY_KEY, JSON.stringify(events, serializeErrors));
+    }
+  }
+}
+
+/**
+ * One IndexedDB record per event, written off the main thread
+ */
+export class IndexedDbQueueStorage implements QueueStorage {
+  private db?: Promise<IDBDatabase>;
+
+  async load(): Promise<QueuedEvent[]> {
+    const records: Array<{ payload: string }> = await this.run('readonly', (store) => store.getAll());
+    return sortEvents(records.map((record) => deserializeEvent(record.payload)));
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    await this.run('readwrite', (store) => {
+      events.forEach((event) => store.put({ id: event.id, payload: serializeEvent(event) }));
+    });
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    await this.run('readwrite', (store) => {
+      ids.forEach((id) => store.delete(id));
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', (store) => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+interface PreferencesPlugin {
+  get(options: { key: string }): Promise<{ value: string | null }>;
+  set(options: { key: string; value: string }): Promise<void>;
+  remove(options: { key: string }): Promise<void>;
+  keys(): Promise<{ keys: string[] }>;
+}
+
+/**
+ * One Capacitor Preferences key per event; survives the OS clearing web view storage
+ */
+export class PreferencesQueueStorage implements QueueStorage {
+  async load(): Promise<QueuedEvent[]> {
+    const preferences = this.getPlugin();
+    const { keys } = await preferences.keys();
+    const values = await Promise.all(
+      keys.filter((key) => key.startsWith(KEY_PREFIX)).map((key) => preferences.get({ key })),
+    );
+
+    return sortEvents(values.flatMap(({ value }) => (value ? [deserializeEvent(value)] : [])));
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    const preferences = this.getPlugin();
+    for (const event of events) {
+      await preferences.set({ key: KEY_PREFIX + event.id, value: serializeEvent(event) });
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const preferences = this.getPlugin();
+    for (const id of ids) {
+      await preferences.remove({ key: KEY_PREFIX + id });
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { keys } = await this.getPlugin().keys();
+    await this.remove(keys.filter((key) => key.startsWith(KEY_PREFIX)).map((key) => key.slice(KEY_PREFIX.length)));
+  }
+
+  private getPlugin(): PreferencesPlugin {
+    const preferences = (globalThis as any).Capacitor?.Plugins?.Preferences;
+    if (!preferences) {
+      throw new Error('Capacitor Preferences plugin is not available');
+    }
+    return preferences;
+  }
+}
+
+interface FilesystemPlugin {
+  readdir(options: { path: string; directory: string }): Promise<{ files: Array<string | { name: string }> }>;
+  readFile(options: { path: string; directory: string; encoding: string }): Promise<{ data: string }>;
+  writeFile(options: {
+    path: string;
+    directory: string;
+    data: string;
+    encoding: string;
+    recursive?: boolean;
+  }): Promise<unknown>;
+  deleteFile(options: { path: string; directory: string }): Promise<void>;
+  rmdir(options: { path: string; directory: string; recursive?: boolean }): Promise<void>;
+}
+
+/**
+ * One file per event in the app's data directory via Capacitor Filesystem, for large payloads
+ */
+export class FilesystemQueueStorage implements QueueStorage {
+  async load(): Promise<QueuedEvent[]> {
+    const filesystem = this.getPlugin();
+
+    let names: string[];
+    try {
+      const { files } = await filesystem.readdir({ path: FOLDER, directory: DIRECTORY });
+      names = files.map((file) => (typeof file === 'string' ? file : file.name));
+    } catch {
+      // The folder does not exist until the first event is written
+      return [];
+    }
+
+    const contents = await Promise.all(
+      names
+        .filter((name) => name.endsWith('.json'))
+        .map((name) => filesystem.readFile({ path: `${FOLDER}/${name}`, directory: DIRECTORY, encoding: 'utf8' })),
+    );
+
+    return sortEvents(contents.map(({ data }) => deserializeEvent(data)));
+  }
+
+  async save(events: QueuedEvent[]): Promise<void> {
+    const filesystem = this.getPlugin();
+    for (const event of events) {
+      await filesystem.writeFile({
+        path: this.path(event.id),
+        directory: DIRECTORY,
+        data: serializeEvent(event),
+        encoding: 'utf8',
+        recursive: true,
+      });
+    }
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const filesystem = this.getPlugin();
+    for (const id of ids) {
+      await filesystem.deleteFile({ path: this.path(id), directory: DIRECTORY }).catch(() => undefined);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.getPlugin()
+      .rmdir({ path: FOLDER, directory: DIRECTORY, recursive: true })
+      .catch(() => undefined);
+  }
+
+  private path(id: string): string {
+    return `${FOLDER}/${encodeURIComponent(id)}.json`;
+  }
+
+  private getPlugin(): FilesystemPlugin {
+    const filesystem = (globalThis as any).Capacitor?.Plugins?.Filesystem;
+    if (!filesystem) {
+      throw new Error('Capacitor Filesystem plugin is not available');
+    }
+    return filesystem;
+  }
+}
+
+/**
+ * Storage for a configured type; 'auto' picks IndexedDB, then localStorage, then memory
+ */
+export function createQueueStorage(type: QueueStorageType = 'auto'): QueueStorage {
+  switch (type) {
+    case 'indexedDB':
+      return new IndexedDbQueueStorage();
+    case 'localStorage':
+      return new LocalStorageQueueStorage();
+    case 'memory':
+      return new MemoryQueueStorage();
+    case 'preferences':
+      return new PreferencesQueueStorage();
+    case 'filesystem':
+      return new FilesystemQueueStorage();
+    default:
+      if (typeof indexedDB !== 'undefined') return new IndexedDbQueueStorage();
+      if (typeof localStorage !== 'undefined') return new LocalStorageQueueStorage();
+      return new MemoryQueueStorage();
+  }
+}
+
+/**
+ * Move events persisted under the original localStorage key into another storage
+ */
+export async function migrateLegacyQueue(target: QueueStorage): Promise<QueuedEvent[]> {
+  if (target instanceof LocalStorageQueueStorage || typeof localStorage === 'undefined') {
+    return [];
+  }
+
+  const legacy = new LocalStorageQueueStorage();
+  const events = await legacy.load();
+
+  if (events.length) {
+    await target.save(events);
+    await legacy.clear();
+  }
+
+  return events;
+}
+
+function serializeEvent(event: QueuedEvent): string {
+  return JSON.stringify(event, serializeErrors);
+}
+
+function deserializeEvent(serialized: string): QueuedEvent {
+  return JSON.parse(serialized, deserializeErrors);
+}
+
+function sortEvents(events: QueuedEvent[]): QueuedEvent[] {
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Error objects have no enumerable own properties, so queued logError calls
+ * are stored with an explicit marker and revived as Error instances on load.
+ */
+function serializeErrors(_key: string, value: any): any {
+  if (value instanceof Error) {
+    return {
+      ...value,
+      __error: true,
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+    };
+  }
+  return value;
+}
+
+function deserializeErrors(_key: string, value: any): any {
+  if (value && typeof value === 'object' && value.__error === true) {
+    const { __error: _marker, name, message, stack, ...rest } = value;
+    const error = new Error(message);
+    error.name = name;
+    error.stack = stack;
+    return Object.assign(error, rest);
+  }
+  return value;
+}
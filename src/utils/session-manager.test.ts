@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionManager } from './session-manager';
+
+describe('SessionManager', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    (SessionManager as any).instance = undefined;
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+    sessionManager = SessionManager.getInstance();
+  });
+
+  afterEach(() => {
+    sessionManager.stop();
+    vi.useRealTimers();
+  });
+
+  it('should start a new session and notify listeners', () => {
+    const listener = vi.fn();
+    sessionManager.addListener(listener);
+
+    sessionManager.start();
+
+    const session = sessionManager.getSession();
+    expect(session?.id).toEqual(expect.any(String));
+    expect(listener).toHaveBeenCalledWith('session_start', session);
+    expect(localStorage.setItem).toHaveBeenCalledWith('unified_tracking_session', JSON.stringify(session));
+  });
+
+  it('should resume a persisted session that has not timed out', () => {
+    const now = Date.now();
+    vi.mocked(localStorage.getItem).mockReturnValue(
+      JSON.stringify({ id: 'persisted', startedAt: now - 1000, lastActivityAt: now - 1000 }),
+    );
+    const listener = vi.fn();
+    sessionManager.addListener(listener);
+
+    sessionManager.start();
+
+    expect(sessionManager.getSessionId()).toBe('persisted');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should rotate the session after the inactivity timeout', () => {
+    vi.useFakeTimers();
+    const listener = vi.fn();
+    sessionManager.configure({ timeout: 1000 });
+    sessionManager.start();
+    const firstId = sessionManager.getSessionId();
+    sessionManager.addListener(listener);
+
+    vi.advanceTimersByTime(500);
+    sessionManager.touch();
+    expect(sessionManager.getSessionId()).toBe(firstId);
+
+    vi.advanceTimersByTime(1500);
+    sessionManager.touch();
+
+    expect(sessionManager.getSessionId()).not.toBe(firstId);
+    expect(listener).toHaveBeenNthCalledWith(1, 'session_end', expect.objectContaining({ id: firstId }));
+    expect(listener).toHaveBeenNthCalledWith(2, 'session_start', expect.any(Object));
+  });
+
+  it('should rotate the session when returning from a long background period', () => {
+    vi.useFakeTimers();
+    sessionManager.configure({ timeout: 1000 });
+    sessionManager.start();
+    const firstId = sessionManager.getSessionId();
+
+    document.dispatchEvent(new Event('pause'));
+    vi.advanceTimersByTime(5000);
+    document.dispatchEvent(new Event('resume'));
+
+    expect(sessionManager.getSessionId()).not.toBe(firstId);
+  });
+
+  it('should continue a session another tab rotated', () => {
+    sessionManager.start();
+    const now = Date.now();
+    vi.mocked(localStorage.getItem).mockReturnValue(
+      JSON.stringify({ id: 'other-tab', startedAt: now, lastActivityAt: now + 1 }),
+    );
+    const listener = vi.fn();
+    sessionManager.addListener(listener);
+
+    sessionManager.touch();
+
+    expect(sessionManager.getSessionId()).toBe('other-tab');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should join the session another tab started after a long background period', () => {
+    vi.useFakeTimers();
+    const stored = new Map<string, string>();
+    vi.mocked(localStorage.getItem).mockImplementation((key: string) => stored.get(key) ?? null);
+    vi.mocked(localStorage.setItem).mockImplementation((key: string, value: string) => void stored.set(key, value));
+    vi.mocked(localStorage.removeItem).mockImplementation((key: string) => void stored.delete(key));
+    const otherTab = new (SessionManager as any)() as SessionManager;
+    sessionManager.configure({ timeout: 1000 });
+    otherTab.configure({ timeout: 1000 });
+    sessionManager.touch();
+    otherTab.touch();
+    const listener = vi.fn();
+    sessionManager.addListener(listener);
+
+    vi.advanceTimersByTime(5000);
+    (otherTab as any).handleForeground();
+    vi.advanceTimersByTime(100);
+    (sessionManager as any).handleForeground();
+    sessionManager.touch();
+
+    expect(sessionManager.getSessionId()).toBe(otherTab.getSessionId());
+    expect(JSON.parse(stored.get('unified_tracking_session')!).id).toBe(otherTab.getSessionId());
+    expect(listener).not.toHaveBeenCalled();
+
+    vi.mocked(localStorage.getItem).mockReset();
+    vi.mocked(localStorage.setItem).mockReset();
+    vi.mocked(localStorage.removeItem).mockReset();
+  });
+
+  it('should keep a session another tab stored when ending its own', () => {
+    const now = Date.now();
+    sessionManager.touch();
+    vi.mocked(localStorage.getItem).mockReturnValue(
+      JSON.stringify({ id: 'other-tab', startedAt: now, lastActivityAt: now }),
+    );
+    vi.mocked(localStorage.removeItem).mockClear();
+
+    sessionManager.endSession();
+
+    expect(localStorage.removeItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+export interface SessionInfo {
+  id: string;
+  startedAt: number;
+  lastActivityAt: number;
+}
+
+export type SessionEventType = 'session_start' | 'session_end';
+
+export type SessionListener = (type: SessionEventType, session: SessionInfo) => void;
+
+const STORAGE_KEY = 'unified_tracking_session';
+const DEFAULT_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Owns the session shared by all providers: rotates it after inactivity or a long
+ * background period and persists it so reloads continue the same session.
+ */
+export class SessionManager {
+  private static instance: SessionManager;
+  private session: SessionInfo | null = null;
+  private timeout = DEFAULT_TIMEOUT;
+  private listeners: Set<SessionListener> = new Set();
+  private started = false;
+
+  private constructor() {}
+
+  static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  configure(options: { timeout?: number }): void {
+    if (options.timeout && options.timeout > 0) {
+      this.timeout = options.timeout;
+    }
+  }
+
+  /**
+   * Resume the persisted session if it is still active, otherwise start a new one
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.session = this.loadSession();
+    this.touch();
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+      // Capacitor and Cordova fire these on document when the app is backgrounded/foregrounded
+      document.addEventListener('pause', this.handleBackground);
+      document.addEventListener('resume', this.handleForeground);
+    }
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    this.persistSession();
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      document.removeEventListener('pause', this.handleBackground);
+      document.removeEventListener('resume', this.handleForeground);
+    }
+  }
+
+  isStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Record activity, rotating the session first if it has timed out
+   */
+  touch(): SessionInfo {
+    const now = Date.now();
+    this.adoptStoredSession();
+
+    if (this.session && now - this.session.lastActivityAt > this.timeout) {
+      this.endSession();
+    }
+
+    if (!this.session) {
+      this.session = { id: this.generateId(), startedAt: now, lastActivityAt: now };
+      this.persistSession();
+      this.emit('session_start', this.session);
+    } else {
+      this.session.lastActivityAt = now;
+      this.persistSession();
+    }
+
+    return this.session;
+  }
+
+  getSessionId(): string | null {
+    return this.session?.id ?? null;
+  }
+
+  getSession(): SessionInfo | null {
+    return this.session ? { ...this.session } : null;
+  }
+
+  /**
+   * End the current session; the next activity starts a new one
+   */
+  endSession(): void {
+    if (!this.session) return;
+
+    const ended = this.session;
+    this.session = null;
+    // Another tab may already have stored the session that follows this one
+    if (this.loadSession()?.id === ended.id) {
+      this.clearPersistedSession();
+    }
+    this.emit('session_end', ended);
+  }
+
+  /**
+   * Drop the current session without emitting session_end
+   */
+  clear(): void {
+    this.session = null;
+    this.clearPersistedSession();
+  }
+
+  addListener(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(type: SessionEventType, session: SessionInfo): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(type, { ...session });
+      } catch {
+        // Listener errors must not break session handling
+      }
+    });
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.handleBackground();
+    } else {
+      this.handleForeground();
+    }
+  };
+
+  private handleBackground = (): void => {
+    // Persist the last activity so a long background period expires the session
+    this.persistSession();
+  };
+
+  private handleForeground = (): void => {
+    // The session may have been rotated by another tab while this one was hidden
+    this.adoptStoredSession();
+
+    if (this.session && Date.now() - this.session.lastActivityAt > this.timeout) {
+      this.endSession();
+      this.touch();
+    }
+  };
+
+  /**
+   * Other tabs share the persisted session; one of them may have extended or rotated it since
+   */
+  private adoptStoredSession(): void {
+    const stored = this.loadSession();
+    if (stored?.id && stored.lastActivityAt >= (this.session?.lastActivityAt ?? 0)) {
+      this.session = stored;
+    }
+  }
+
+  private generateId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private persistSession(): void {
+    try {
+      if (typeof localStorage !== 'undefined' && this.session) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.session));
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  private loadSession(): SessionInfo | null {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          return JSON.parse(stored);
+        }
+      }
+    } catch {
+      // Ignore storage errors
+    }
+    return null;
+  }
+
+  private clearPersistedSession(): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
+}
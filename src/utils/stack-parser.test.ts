@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseStack } from './stack-parser';
+
+describe('parseStack', () => {
+  it('should parse V8 stacks', () => {
+    const stack = [
+      'TypeError: boom',
+      '    at Object.handleClick (https://app.example.com/main.js:10:15)',
+      '    at async loadUser (https://app.example.com/user.js:3:7)',
+      '    at https://app.example.com/node_modules/lib/index.js:1:200',
+      '    at Array.map (<anonymous>)',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { file: 'https://app.example.com/main.js', line: 10, column: 15, function: 'Object.handleClick', inApp: true },
+      { file: 'https://app.example.com/user.js', line: 3, column: 7, function: 'loadUser', inApp: true },
+      {
+        file: 'https://app.example.com/node_modules/lib/index.js',
+        line: 1,
+        column: 200,
+        function: undefined,
+        inApp: false,
+      },
+    ]);
+  });
+
+  it('should not read a V8 error message as a frame', () => {
+    const stack = [
+      'Error: connect ECONNREFUSED 127.0.0.1:5432',
+      '    at TCPConnectWrap.afterConnect (https://app.example.com/db.js:4:9)',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      {
+        file: 'https://app.example.com/db.js',
+        line: 4,
+        column: 9,
+        function: 'TCPConnectWrap.afterConnect',
+        inApp: true,
+      },
+    ]);
+  });
+
+  it('should parse SpiderMonkey and JavaScriptCore stacks', () => {
+    const stack = [
+      'handleClick/<@https://app.example.com/main.js:10:15',
+      '@https://app.example.com/main.js:20:1',
+      'global code@https://app.example.com/main.js:30',
+      '[native code]',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      { file: 'https://app.example.com/main.js', line: 10, column: 15, function: 'handleClick', inApp: true },
+      { file: 'https://app.example.com/main.js', line: 20, column: 1, function: undefined, inApp: true },
+      { file: 'https://app.example.com/main.js', line: 30, column: undefined, function: undefined, inApp: true },
+    ]);
+  });
+
+  it('should report Capacitor and WebView bundles as app:/// files', () => {
+    const ios = 'render@capacitor://localhost/assets/index-4f2a.js:1:2345';
+    const android = '    at render (https://localhost/assets/index-4f2a.js:1:2345)';
+    const legacyAndroid = '    at render (file:///android_asset/public/assets/index-4f2a.js:1:2345)';
+    const expected = [{ file: 'app:///assets/index-4f2a.js', line: 1, column: 2345, function: 'render', inApp: true }];
+
+    expect(parseStack(ios)).toEqual(expected);
+    expect(parseStack(android)).toEqual(expected);
+    expect(parseStack(legacyAndroid)).toEqual(expected);
+    expect(parseStack('    at render (http://localhost:5173/src/App.tsx:4:9)')[0].file).toBe(
+      'http://localhost:5173/src/App.tsx',
+    );
+  });
+
+  it('should return no frames without a stack', () => {
+    expect(parseStack(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import type { StackFrame } from '../definitions';
+
+// V8 and Android WebView: "    at fn (https://app/main.js:10:5)" or "    at https://app/main.js:10:5"
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+)(?::(\d+))?\)?\s*$/;
+
+// SpiderMonkey, JavaScriptCore and iOS WKWebView: "fn@https://app/main.js:10:5" or "@https://app/main.js:10"
+const GECKO_FRAME = /^\s*(?:(.*?)@)?(.+?):(\d+)(?::(\d+))?\s*$/;
+
+// Origins a Capacitor or Ionic app serves its bundle from, reported as app:/// on every platform
+const APP_ORIGINS = [
+  /^capacitor:\/\/localhost\//,
+  /^ionic:\/\/localhost\//,
+  /^https?:\/\/localhost\//,
+  /^file:\/\/\/android_asset\/public\//,
+];
+
+const NOT_IN_APP = [
+  /\/node_modules\//,
+  /^(chrome|moz|safari|safari-web)-extension:\/\//,
+  /^webpack\/bootstrap/,
+  /^<anonymous>$/,
+  /^native$/,
+];
+
+/**
+ * Parse an error stack into normalized frames, innermost first. Lines that are not frames are skipped.
+ */
+export function parseStack(stack: string | undefined): StackFrame[] {
+  if (!stack) return [];
+
+  const frames: StackFrame[] = [];
+  // V8 starts the stack with the error message, which may itself read like "file:line"
+  const frameFormat = /^\s*at /m.test(stack) ? V8_FRAME : GECKO_FRAME;
+
+  for (const line of stack.split('\n')) {
+    const match = frameFormat.exec(line);
+    if (!match) continue;
+
+    const [, fn, rawFile, lineNumber, column] = match;
+    const file = normalizeFile(rawFile);
+
+    frames.push({
+      file,
+      line: Number(lineNumber),
+      column: column === undefined ? undefined : Number(column),
+      function: normalizeFunction(fn),
+      inApp: !NOT_IN_APP.some((pattern) => pattern.test(file)),
+    });
+  }
+
+  return frames;
+}
+
+function normalizeFile(file: string): string {
+  for (const origin of APP_ORIGINS) {
+    if (origin.test(file)) {
+      return file.replace(origin, 'app:///');
+    }
+  }
+  return file;
+}
+
+function normalizeFunction(fn: string | undefined): string | undefined {
+  if (!fn || fn === 'global code' || fn === 'eval code') {
+    return undefined;
+  }
+
+  // "async fn" (V8), "fn/<" and "fn*" (SpiderMonkey)
+  const name = fn
+    .replace(/^async /, '')
+    .replace(/\/<+$/, '')
+    .replace(/\*$/, '');
+
+  return name || undefined;
+}
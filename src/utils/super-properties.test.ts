@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SuperProperties } from './super-properties';
+
+describe('SuperProperties', () => {
+  beforeEach(() => {
+    (SuperProperties as any).instance = undefined;
+    vi.mocked(localStorage.getItem).mockReturnValue(null);
+  });
+
+  it('should register, overwrite and unregister properties', () => {
+    const superProperties = SuperProperties.getInstance();
+
+    superProperties.register({ app_version: '1.0.0', tenant: 'acme' });
+    superProperties.register({ app_version: '1.1.0' });
+    superProperties.unregister('tenant');
+
+    expect(superProperties.getAll()).toEqual({ app_version: '1.1.0' });
+    expect(localStorage.setItem).toHaveBeenLastCalledWith(
+      'unified_tracking_super_properties',
+      JSON.stringify({ app_version: '1.1.0' }),
+    );
+  });
+
+  it('should not overwrite existing properties with registerOnce', () => {
+    const superProperties = SuperProperties.getInstance();
+
+    superProperties.register({ channel: 'beta' });
+    superProperties.registerOnce({ channel: 'stable', first_seen: '2025-01-01' });
+
+    expect(superProperties.getAll()).toEqual({ channel: 'beta', first_seen: '2025-01-01' });
+  });
+
+  it('should restore persisted properties', () => {
+    vi.mocked(localStorage.getItem).mockReturnValue(JSON.stringify({ tenant: 'acme' }));
+
+    expect(SuperProperties.getInstance().getAll()).toEqual({ tenant: 'acme' });
+  });
+});
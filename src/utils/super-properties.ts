@@ -0,0 +1,78 @@
+const STORAGE_KEY = 'unified_tracking_super_properties';
+
+/**
+ * Persisted properties added to every event sent through UnifiedTracking
+ */
+export class SuperProperties {
+  private static instance: SuperProperties;
+  private properties: Record<string, any>;
+
+  private constructor() {
+    this.properties = this.loadProperties();
+  }
+
+  static getInstance(): SuperProperties {
+    if (!SuperProperties.instance) {
+      SuperProperties.instance = new SuperProperties();
+    }
+    return SuperProperties.instance;
+  }
+
+  /**
+   * Add or overwrite super properties
+   */
+  register(properties: Record<string, any>): void {
+    this.properties = { ...this.properties, ...properties };
+    this.persistProperties();
+  }
+
+  /**
+   * Add super properties that are not already set
+   */
+  registerOnce(properties: Record<string, any>): void {
+    this.properties = { ...properties, ...this.properties };
+    this.persistProperties();
+  }
+
+  unregister(name: string): void {
+    delete this.properties[name];
+    this.persistProperties();
+  }
+
+  getAll(): Record<string, any> {
+    return { ...this.properties };
+  }
+
+  hasProperties(): boolean {
+    return Object.keys(this.properties).length > 0;
+  }
+
+  clear(): void {
+    this.properties = {};
+    this.persistProperties();
+  }
+
+  private persistProperties(): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.properties));
+      }
+    } catch {
+      // Ignore storage errors
+    }
+  }
+
+  private loadProperties(): Record<string, any> {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+          return JSON.parse(stored);
+        }
+      }
+    } catch {
+      // Ignore storage errors
+    }
+    return {};
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TabCoordinator } from './tab-coordinator';
+
+/**
+ * Minimal exclusive Web Locks: a held lock passes to the next waiting request on release
+ */
+function createLockManager() {
+  let held = false;
+  const waiting: Array<() => void> = [];
+
+  return {
+    request(name: string, options: LockOptions, callback: (lock: Lock | null) => Promise<void> | void) {
+      if (held && options.ifAvailable) {
+        return Promise.resolve(callback(null));
+      }
+
+      return new Promise<void>((resolve, reject) => {
+        const grant = () => {
+          held = true;
+          Promise.resolve(callback({ name, mode: 'exclusive' }))
+            .then(resolve)
+            .finally(() => {
+              held = false;
+              waiting.shift()?.();
+            });
+        };
+
+        if (!held) {
+          grant();
+          return;
+        }
+        waiting.push(grant);
+        options.signal?.addEventListener('abort', () => {
+          waiting.splice(waiting.indexOf(grant), 1);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      });
+    },
+  };
+}
+
+describe('TabCoordinator', () => {
+  const tabs: TabCoordinator[] = [];
+
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { ...navigator, locks: createLockManager() });
+  });
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.stop());
+    vi.unstubAllGlobals();
+  });
+
+  const openTab = async () => {
+    const tab = new TabCoordinator();
+    tabs.push(tab);
+    await tab.start();
+    return tab;
+  };
+
+  it('should make the first tab the leader', async () => {
+    expect(TabCoordinator.isSupported()).toBe(true);
+
+    const first = await openTab();
+    const second = await openTab();
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+
+  it('should pass leadership on when the leader stops', async () => {
+    const first = await openTab();
+    const second = await openTab();
+    const onLeader = vi.fn();
+    second.onLeader(onLeader);
+
+    first.stop();
+    await vi.waitFor(() => expect(second.isLeader()).toBe(true));
+
+    expect(onLeader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver messages to the other tabs', async () => {
+    const first = await openTab();
+    const second = await openTab();
+    const received = vi.fn();
+    second.onMessage(received);
+
+    first.post({ type: 'ping' });
+
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith({ type: 'ping', from: first.tabId }));
+  });
+});
@@ -0,0 +1,105 @@
+const LOCK_NAME = 'unified_tracking_leader';
+const CHANNEL_NAME = 'unified_tracking';
+
+export type TabMessage = { from: string; type: string; [key: string]: any };
+
+/**
+ * Elects one leader among the open tabs of an origin with the Web Locks API and carries
+ * messages between them over a BroadcastChannel. The lock passes to a waiting tab as soon
+ * as the leader tab closes.
+ */
+export class TabCoordinator {
+  readonly tabId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private leader = false;
+  private channel?: BroadcastChannel;
+  private abort?: AbortController;
+  private release?: () => void;
+  private messageListeners: Array<(message: TabMessage) => void> = [];
+  private leaderListeners: Array<() => void> = [];
+
+  static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.locks && typeof BroadcastChannel !== 'undefined';
+  }
+
+  /**
+   * Join the other tabs; resolves once this tab knows whether it leads
+   */
+  async start(): Promise<void> {
+    if (this.channel) return;
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      this.messageListeners.forEach((listener) => listener(event.data));
+    };
+    this.abort = new AbortController();
+
+    const acquired = await this.requestLock({ ifAvailable: true });
+    if (!acquired) {
+      // Queue up to take over when the current leader goes away
+      this.requestLock({ signal: this.abort.signal }).catch(() => undefined);
+    }
+  }
+
+  stop(): void {
+    this.abort?.abort();
+    this.release?.();
+    this.channel?.close();
+
+    this.abort = undefined;
+    this.release = undefined;
+    this.channel = undefined;
+    this.leader = false;
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Returns false when the message could not be sent to the other tabs
+   */
+  post(message: Omit<TabMessage, 'from'>): boolean {
+    if (!this.channel) return false;
+
+    try {
+      this.channel.postMessage({ ...message, from: this.tabId });
+      return true;
+    } catch {
+      // Payloads that cannot be cloned stay with this tab
+      return false;
+    }
+  }
+
+  onMessage(listener: (message: TabMessage) => void): void {
+    this.messageListeners.push(listener);
+  }
+
+  /**
+   * Called when this tab becomes the leader, immediately or after the previous leader closed
+   */
+  onLeader(listener: () => void): void {
+    this.leaderListeners.push(listener);
+  }
+
+  private requestLock(options: LockOptions): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      navigator.locks
+        .request(LOCK_NAME, options, (lock) => {
+          if (!lock) {
+            resolve(false);
+            return;
+          }
+
+          this.leader = true;
+          resolve(true);
+          this.leaderListeners.forEach((listener) => listener());
+
+          // Held until stop() or the tab closes
+          return new Promise<void>((release) => {
+            this.release = release;
+          });
+        })
+        .catch(reject);
+    });
+  }
+}
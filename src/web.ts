@@ -9,6 +9,8 @@ import type {
   RevenueData,
   ConsentSettings,
   ActiveProvidersResult,
+  ListenerEventName,
+  LocalDataExport,
 } from './definitions';
 import { ProviderManager } from './providers/provider-manager';
 import { ConfigManager } from './utils/config-manager';
@@ -90,6 +92,17 @@ export class UnifiedTrackingWeb extends WebPlugin implements UnifiedTrackingPlug
     this.notifyListeners('trackingEvent', { event, properties });
   }
 
+  /**
+   * Timed events are only supported by UnifiedTrackingCore
+   */
+  async time(_eventName: string): Promise<void> {
+    throw this.unimplemented('Timed events are not implemented on web.');
+  }
+
+  async cancelTimedEvent(_eventName: string): Promise<void> {
+    throw this.unimplemented('Timed events are not implemented on web.');
+  }
+
   async identify(userId: string, traits?: Record<string, any>): Promise<void> {
     this.ensureInitialized();
 
@@ -134,6 +147,21 @@ export class UnifiedTrackingWeb extends WebPlugin implements UnifiedTrackingPlug
     await this.providerManager.logScreenView(screenName, properties);
   }
 
+  /**
+   * Super properties are only supported by UnifiedTrackingCore
+   */
+  async register(_properties: Record<string, unknown>): Promise<void> {
+    throw this.unimplemented('Super properties are not implemented on web.');
+  }
+
+  async registerOnce(_properties: Record<string, unknown>): Promise<void> {
+    throw this.unimplemented('Super properties are not implemented on web.');
+  }
+
+  async unregister(_propertyName: string): Promise<void> {
+    throw this.unimplemented('Super properties are not implemented on web.');
+  }
+
   async setConsent(consent: ConsentSettings): Promise<void> {
     this.logger.debug('Setting consent', consent);
 
@@ -148,6 +176,17 @@ export class UnifiedTrackingWeb extends WebPlugin implements UnifiedTrackingPlug
     this.eventQueue.clear();
   }
 
+  /**
+   * Data subject requests are only supported by UnifiedTrackingCore
+   */
+  async forgetUser(): Promise<void> {
+    throw this.unimplemented('Forgetting the user is not implemented on web.');
+  }
+
+  async exportLocalData(): Promise<LocalDataExport> {
+    throw this.unimplemented('Exporting local data is not implemented on web.');
+  }
+
   async getActiveProviders(): Promise<ActiveProvidersResult> {
     const analyticsProviders = this.providerManager.getActiveProviders('analytics');
     const errorProviders = this.providerManager.getActiveProviders('error-tracking');
@@ -173,10 +212,7 @@ export class UnifiedTrackingWeb extends WebPlugin implements UnifiedTrackingPlug
     this.providerManager.setDebugMode(enabled);
   }
 
-  async addListener(
-    eventName: 'trackingEvent' | 'error' | 'providerStatusChange',
-    listenerFunc: (event: any) => void,
-  ): Promise<PluginListenerHandle> {
+  async addListener(eventName: ListenerEventName, listenerFunc: (event: any) => void): Promise<PluginListenerHandle> {
     const handle = await super.addListener(eventName, listenerFunc);
     return handle;
   }